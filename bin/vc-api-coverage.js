@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+// lib 中的模块依赖 vite 的模块解析（与 vitest 加载 reporter 的方式一致），因此通过 vite-node 执行 CLI
+const { spawnSync } = require('child_process')
+const path = require('path')
+
+const viteNodeBin = path.join(path.dirname(require.resolve('vite-node/package.json')), 'vite-node.mjs')
+const cliPath = path.resolve(__dirname, '../lib/cli.js')
+
+const { status } = spawnSync(process.execPath, [viteNodeBin, cliPath, '--', ...process.argv.slice(2)], { stdio: 'inherit' })
+process.exit(status ?? 1)
@@ -1,24 +1,79 @@
 import type { Reporter } from 'vitest/reporters'
-import type { TestModule } from 'vitest/node'
+import type { TestModule, TestSpecification, Vitest } from 'vitest/node'
 import path from 'path';
+import fs from 'fs';
 import open from 'open';
 import _ from 'lodash';
+import fg from 'fast-glob';
+import micromatch from 'micromatch';
 import ComponentAnalyzer from './analyzer/ComponentAnalyzer';
-import { generateCliReport } from './reporter/CliReporter';
+import { generateCliDelta, generateCliDeprecated, generateCliReport } from './reporter/CliReporter';
 import { HTMLReporter } from './reporter/HtmlReporter';
 import { JSONReporter } from './reporter/JsonReporter';
+import { LcovReporter } from './reporter/LcovReporter';
+import { CoberturaReporter } from './reporter/CoberturaReporter';
+import { MarkdownReporter } from './reporter/MarkdownReporter';
+import { JUnitReporter } from './reporter/JunitReporter';
 import { VcCoverageOptions, ReportFormat } from './types';
-import type { VcCoverageData, VcData } from './types';
+import type { VcBaselineDiff, VcCoverageData, VcCoverageDetail, VcCoverageSource, VcData, VcHistoryEntry, VcIgnoredDetail, VcLocationData, VcSlotParamData, VcUsageData, VcValueData } from './types';
 import TestUnitAnalyzer from './analyzer/UnitTestAnalyzer';
-import { Project, ts } from 'ts-morph';
+import { FileSystemRefreshResult, Project, SourceFile } from 'ts-morph';
+import { categories, getSfcScriptContent, isComponentFile, isVueFile, logError } from './common/utils';
+import { checkThresholds, formatThresholdViolation } from './common/threshold';
+import { appendHistory, createHistoryEntry } from './common/history';
+import { compareWithBaseline, formatBaselineDiff, readCoverageReport } from './common/baseline';
+import { DEFAULT_CACHE_DIR, getCacheKey, readCache, writeCache } from './common/cache';
+import { aliasesToPaths, getCompilerOptions, ViteAlias } from './common/tsconfig';
+import { applyIgnoreOptions } from './common/ignore';
+
+const defaultExclude = ['**/node_modules/**', '**/*.{test,spec}.*', '**/__tests__/**'];
+
+interface TestCacheEntry {
+  result: Record<string, Partial<VcData>>
+  usages: VcUsageData
+  values?: VcValueData
+  slotParams: VcSlotParamData
+}
+
+interface ComponentCacheEntry {
+  data: VcData
+  ignored: VcData
+  deprecated: VcData
+  values?: Record<string, string[]>
+  slotParams: Record<string, string[]>
+  locations: VcLocationData[string]
+}
 
 export default class VcCoverageReporter implements Reporter {
   private options: VcCoverageOptions;
   private htmlReporter: HTMLReporter;
   private jsonReporter: JSONReporter;
+  private lcovReporter: LcovReporter;
+  private coberturaReporter: CoberturaReporter;
+  private markdownReporter: MarkdownReporter;
+  private junitReporter: JUnitReporter;
   private coverageData: Array<VcCoverageData> = [];
   private unitData: Record<string, VcData> = {};
+  private unitUsages: VcUsageData = {};
+  private unitValues: VcValueData = {};
+  private unitSlotParams: VcSlotParamData = {};
+  private runtimeData: Record<string, VcData> = {};
+  // 按测试文件记录的分析结果，watch 模式下重新运行或删除的测试文件只需替换自己的部分
+  private testUnitData: Record<string, Record<string, Partial<VcData>>> = {};
+  private testUsages: Record<string, VcUsageData> = {};
+  private testValues: Record<string, VcValueData> = {};
+  private testSlotParams: Record<string, VcSlotParamData> = {};
+  private testRuntimeData: Record<string, Record<string, Partial<VcData>>> = {};
   private compData: Record<string, VcData> = {};
+  private compLocations: VcLocationData = {};
+  private compIgnored: Record<string, VcData> = {};
+  private compDeprecated: Record<string, VcData> = {};
+  private compValues: VcValueData = {};
+  private compSlotParams: VcSlotParamData = {};
+  // 组件分析结果依赖的文件，其中任一文件变化时重新分析该组件
+  private compDependencies: Record<string, string[]> = {};
+  private coverageEnabled = false;
+  private history: VcHistoryEntry[] = [];
   private project: Project;
   private onFinishedCallback?: (data: VcCoverageData[]) => void;
 
@@ -28,43 +83,249 @@ export default class VcCoverageReporter implements Reporter {
       format: ['cli', 'html', 'json'],
       outputDir: 'coverage',
       openBrowser: false,
+      historySize: 30,
+      cache: true,
+      cacheDir: DEFAULT_CACHE_DIR,
       ...options
     };
 
     this.htmlReporter = new HTMLReporter(this.options.outputDir);
     this.jsonReporter = new JSONReporter(this.options.outputDir);
+    this.lcovReporter = new LcovReporter(this.options.outputDir);
+    this.coberturaReporter = new CoberturaReporter(this.options.outputDir);
+    this.markdownReporter = new MarkdownReporter(this.options.outputDir, this.options.markdown?.maxRows);
+    this.junitReporter = new JUnitReporter(this.options.outputDir);
     this.project = new Project({
-      compilerOptions: {
-        target: ts.ScriptTarget.ESNext, 
-        module: ts.ModuleKind.ESNext,
-        jsx: ts.JsxEmit.Preserve,
-        moduleResolution: ts.ModuleResolutionKind.NodeNext,
-      },
+      compilerOptions: getCompilerOptions(this.options.tsconfig),
     });
     if (options.onFinished) {
       this.onFinishedCallback = options.onFinished 
     }
   }
 
+  onInit(vitest: Vitest) {
+    this.coverageEnabled = vitest.config.coverage.enabled
+    const aliases = vitest.vite?.config.resolve.alias
+    if (aliases) {
+      this.addAliases(aliases, vitest.config.root)
+    }
+  }
+
+  /**
+   * 将 vite 的 resolve.alias 加入编译选项的 paths，tsconfig 中已有的映射优先
+   */
+  addAliases(aliases: ViteAlias[] | Record<string, string>, root?: string) {
+    const paths = aliasesToPaths(aliases, root)
+    if (Object.keys(paths).length === 0) return
+    const { paths: configPaths } = this.project.getCompilerOptions()
+    this.project.compilerOptions.set({ paths: { ...paths, ...configPaths } })
+  }
+
+  /**
+   * 每次运行（包括 watch 模式下的重新运行）开始时，刷新变化的文件并丢弃过期的分析结果
+   */
+  onTestRunStart(specifications: ReadonlyArray<TestSpecification>) {
+    const changedFiles = this.refreshProject()
+    for (const specification of specifications) {
+      this.removeTestFile(specification.moduleId)
+    }
+    for (const testFile of _.union(Object.keys(this.testUnitData), Object.keys(this.testRuntimeData))) {
+      if (!fs.existsSync(testFile)) this.removeTestFile(testFile)
+    }
+    for (const component in this.compDependencies) {
+      if (this.compDependencies[component].some(file => changedFiles.includes(file))) {
+        this.removeComponent(component)
+      }
+    }
+  }
+
   onTestModuleEnd(testModule: TestModule) {
+    // 运行时模式下，setup 文件记录的数据通过任务元数据传递过来
+    const runtimeRes = testModule.meta().vcApiCoverage
+    if (runtimeRes) {
+      this.testRuntimeData[testModule.moduleId] = runtimeRes
+    }
+
+    this.analyzeTestFile(testModule.moduleId)
+  }
 
-    const sourceFile = this.project.addSourceFileAtPath(testModule.moduleId)
+  // 开启 coverage 时在 onCoverage 中生成报告，以便使用覆盖率数据补充 exposes
+  async onTestRunEnd() {
+    if (this.coverageEnabled) return
+    await this.report()
+  }
+
+  /**
+   * 静态分析单个测试文件，重复分析同一文件时替换之前的结果
+   */
+  analyzeTestFile(filePath: string) {
+    delete this.testUnitData[filePath]
+    delete this.testUsages[filePath]
+    delete this.testValues[filePath]
+    delete this.testSlotParams[filePath]
+    const sourceFile = this.getSourceFile(filePath)
+    const analyzerOptions = this.options.propValues ? { propValues: true } : {}
+    const cacheKey = this.options.cache ? getCacheKey('test', this.getDependencyFiles(sourceFile), { ...this.project.getCompilerOptions(), ...analyzerOptions }) : ''
+    const cached = cacheKey ? readCache<TestCacheEntry>(this.options.cacheDir!, cacheKey) : undefined
+    if (cached) {
+      this.testUnitData[filePath] = cached.result
+      this.testUsages[filePath] = cached.usages
+      this.testValues[filePath] = cached.values || {}
+      this.testSlotParams[filePath] = cached.slotParams
+      return
+    }
 
-    const res = new TestUnitAnalyzer(sourceFile, this.project).analyze()
+    const analyzer = new TestUnitAnalyzer(sourceFile, this.project, analyzerOptions)
+    const res = analyzer.analyze()
     if (!res) {
-      console.warn(`[vc-api-coverage] Warning: No test unit data found for ${testModule.moduleId}`);
+      console.warn(`[vc-api-coverage] Warning: No test unit data found for ${filePath}`);
       return;
     }
+    this.testUnitData[filePath] = res
+    this.testUsages[filePath] = analyzer.getUsages()
+    this.testValues[filePath] = analyzer.getPropValues()
+    this.testSlotParams[filePath] = analyzer.getSlotParams()
+    if (cacheKey) {
+      writeCache(this.options.cacheDir!, cacheKey, { result: res, usages: analyzer.getUsages(), values: analyzer.getPropValues(), slotParams: analyzer.getSlotParams() })
+    }
+  }
+
+  removeTestFile(filePath: string) {
+    delete this.testUnitData[filePath]
+    delete this.testUsages[filePath]
+    delete this.testValues[filePath]
+    delete this.testSlotParams[filePath]
+    delete this.testRuntimeData[filePath]
+  }
+
+  removeComponent(filePath: string) {
+    delete this.compData[filePath]
+    delete this.compLocations[filePath]
+    delete this.compIgnored[filePath]
+    delete this.compDeprecated[filePath]
+    delete this.compValues[filePath]
+    delete this.compSlotParams[filePath]
+    delete this.compDependencies[filePath]
+  }
+
+  /**
+   * 获取 project 中的源文件，已加载的文件会先从磁盘刷新
+   */
+  getSourceFile(filePath: string) {
+    const sourceFile = this.project.getSourceFile(filePath)
+    if (!sourceFile) {
+      return this.project.addSourceFileAtPath(filePath)
+    }
+    sourceFile.refreshFromFileSystemSync()
+    return sourceFile
+  }
+
+  /**
+   * 从磁盘刷新 project 中已加载的文件，返回内容发生变化或已被删除的文件
+   * 通过 import 解析加载的组件不在 project.getSourceFiles() 中，需要从 program 中获取
+   */
+  refreshProject(): string[] {
+    const changedFiles: string[] = []
+    const fileNames = this.project.getProgram().compilerObject.getSourceFiles().map(file => file.fileName)
+    for (const fileName of fileNames) {
+      const sourceFile = this.project.getSourceFile(fileName)
+      if (!sourceFile || fileName.includes('/node_modules/')) continue
+      const filePath = sourceFile.getFilePath()
+      const vueFile = filePath.replace(/\.vue\.tsx?$/, '.vue')
+      if (vueFile === filePath) {
+        if (sourceFile.refreshFromFileSystemSync() !== FileSystemRefreshResult.NoChange) {
+          changedFiles.push(filePath)
+        }
+        continue
+      }
+      // .vue 组件对应的是内存中的虚拟文件，需要重新提取 script 内容进行比较
+      if (!fs.existsSync(vueFile)) {
+        this.project.removeSourceFile(sourceFile)
+        changedFiles.push(vueFile)
+        continue
+      }
+      const { content } = getSfcScriptContent(fs.readFileSync(vueFile, 'utf-8'), vueFile)
+      if (content !== sourceFile.getFullText()) {
+        sourceFile.replaceWithText(content)
+        changedFiles.push(vueFile)
+      }
+    }
+    return changedFiles
+  }
+
+  /**
+   * 获取源文件及其递归引用的项目内文件，node_modules 中的文件不计入
+   */
+  getDependencyFiles(sourceFile: SourceFile): SourceFile[] {
+    const visited = new Set<SourceFile>([sourceFile])
+    const queue = [sourceFile]
+    while (queue.length > 0) {
+      for (const referenced of queue.shift()!.getReferencedSourceFiles()) {
+        if (visited.has(referenced) || referenced.getFilePath().includes('/node_modules/')) continue
+        visited.add(referenced)
+        queue.push(referenced)
+      }
+    }
+    return Array.from(visited)
+  }
+
+  /**
+   * 汇总各测试文件的分析结果
+   */
+  collectTestData() {
+    this.unitData = {}
+    this.unitUsages = {}
+    this.unitValues = {}
+    this.unitSlotParams = {}
+    this.runtimeData = {}
+    for (const testFile in this.testUnitData) {
+      this.mergeVcData(this.unitData, this.testUnitData[testFile])
+    }
+    for (const testFile in this.testUsages) {
+      this.mergeUsages(this.testUsages[testFile])
+    }
+    for (const testFile in this.testRuntimeData) {
+      this.mergeVcData(this.runtimeData, this.testRuntimeData[testFile])
+    }
+    for (const testFile in this.testValues) {
+      this.mergeNameLists(this.unitValues, this.testValues[testFile])
+    }
+    for (const testFile in this.testSlotParams) {
+      this.mergeNameLists(this.unitSlotParams, this.testSlotParams[testFile])
+    }
+  }
+
+  // 合并 组件文件 -> 名称 -> 列表 形式的数据，同名列表取并集
+  mergeNameLists(target: Record<string, Record<string, string[]>>, source: Record<string, Record<string, string[]>>) {
+    _.mergeWith(target, source, (objValue: unknown, srcValue: unknown) => {
+      if (Array.isArray(objValue) && Array.isArray(srcValue)) {
+        return _.union(objValue, srcValue);
+      }
+      return undefined;
+    })
+  }
+
+  mergeUsages(usages: VcUsageData) {
+    _.mergeWith(this.unitUsages, usages, (objValue: unknown, srcValue: unknown) => {
+      if (Array.isArray(objValue) && Array.isArray(srcValue)) {
+        return objValue.concat(srcValue);
+      }
+      return undefined;
+    })
+  }
+
+  mergeVcData(target: Record<string, VcData>, res: Record<string, Partial<VcData>>) {
     for (const fullPath in res) {
       let info: VcData = {
         props: [],
+        emits: [],
         slots: [],
         exposes: [],
       }
-      if (this.unitData[fullPath]) {
-        info = this.unitData[fullPath]
+      if (target[fullPath]) {
+        info = target[fullPath]
       } 
-      this.unitData[fullPath] = _.mergeWith({}, info, res[fullPath], (objValue: unknown, srcValue: unknown) => {
+      target[fullPath] = _.mergeWith({}, info, res[fullPath], (objValue: unknown, srcValue: unknown) => {
         if (Array.isArray(objValue) && Array.isArray(srcValue)) {
           return Array.from(new Set([...objValue, ...srcValue]));
         }
@@ -74,24 +335,112 @@ export default class VcCoverageReporter implements Reporter {
   }
 
   analyzerComponent() {
-    for (const path in this.unitData) {
-      let sourceFile = this.project.addSourceFileAtPath(path)
-      // 分析组件API
-      const analyzer = new ComponentAnalyzer(sourceFile)
-      const { props, slots, exposes } = analyzer.analyze()
+    const testedPaths = _.union(Object.keys(this.unitData), Object.keys(this.runtimeData))
+    const paths = _.union(testedPaths, this.getIncludedComponents())
+    // 不再被测试引用的组件不再出现在报告中
+    for (const path in this.compDependencies) {
+      if (!paths.includes(path)) this.removeComponent(path)
+    }
+    for (const path of paths) {
+      if (this.isExcluded(path)) continue
+      // 依赖文件未变化的组件沿用上一次的分析结果
+      if (this.compDependencies[path]) continue
+      const isTested = testedPaths.includes(path)
+      let data: VcData
+      try {
+        const sourceFile = this.getComponentSourceFile(path)
+        const dependencies = this.getDependencyFiles(sourceFile)
+        // .vue 的虚拟文件还原为 .vue 路径，与 refreshProject 返回的路径一致
+        this.compDependencies[path] = dependencies.map(file => file.getFilePath().replace(/\.vue\.tsx?$/, '.vue'))
+        // ignore.internal 为 false 时不再过滤 Vue 内置属性
+        const analyzerOptions = {
+          ...(this.options.ignore?.internal === false ? { internalProps: [] } : {}),
+          ...(this.options.propValues ? { propValues: true } : {}),
+        }
+        const cacheKey = this.options.cache ? getCacheKey('component', dependencies, { ...this.project.getCompilerOptions(), ...analyzerOptions }) : ''
+        const cached = cacheKey ? readCache<ComponentCacheEntry>(this.options.cacheDir!, cacheKey) : undefined
+        if (cached) {
+          data = cached.data
+          this.compIgnored[path] = cached.ignored
+          this.compDeprecated[path] = cached.deprecated
+          this.compValues[path] = cached.values || {}
+          this.compSlotParams[path] = cached.slotParams
+          this.compLocations[path] = cached.locations
+        } else {
+          // 分析组件API
+          const analyzer = new ComponentAnalyzer(sourceFile, analyzerOptions)
+          data = analyzer.analyze()
+          this.compIgnored[path] = analyzer.getIgnored()
+          this.compDeprecated[path] = analyzer.getDeprecated()
+          this.compValues[path] = analyzer.getPropValues()
+          this.compSlotParams[path] = analyzer.getSlotParams()
+          this.compLocations[path] = analyzer.getLocations()
+          if (cacheKey) {
+            writeCache(this.options.cacheDir!, cacheKey, { data, ignored: this.compIgnored[path], deprecated: this.compDeprecated[path], values: this.compValues[path], slotParams: this.compSlotParams[path], locations: this.compLocations[path] })
+          }
+        }
+      } catch (error) {
+        if (isTested) throw error
+        console.warn(`[vc-api-coverage] Warning: Failed to analyze ${path}`);
+        continue
+      }
+      // ignore 选项在分析之后应用，修改选项不会使分析缓存失效
+      const applied = applyIgnoreOptions(path, data, this.compIgnored[path], this.options.ignore)
+      data = applied.data
+      this.compIgnored[path] = applied.ignored
+      const { props, emits, slots, exposes } = data
+      // 未被测试引用且没有任何 API 的文件通常不是组件，不加入报告
+      if (!isTested && props.length + emits.length + slots.length + exposes.length === 0) {
+        this.removeComponent(path)
+        continue
+      }
       this.compData[path] = {
         props: Array.from(props),
+        emits: Array.from(emits),
         slots: Array.from(slots),
         exposes: Array.from(exposes),
       }
     }
   }
 
-  mergeData(unitData: Record<string, VcData>, compData: Record<string, VcData>): VcCoverageData[] {
+  /**
+   * 根据 include 查找组件库中的全部组件文件
+   */
+  getIncludedComponents(): string[] {
+    if (!this.options.include) return []
+    return fg.sync(this.options.include, {
+      cwd: process.cwd(),
+      absolute: true,
+      ignore: _.castArray(this.options.exclude || defaultExclude),
+    }).filter(isComponentFile)
+  }
+
+  // 默认的 exclude 只用于 include 查找组件，测试中引用到的组件只受用户配置的 exclude 影响
+  isExcluded(filePath: string) {
+    if (!this.options.exclude) return false
+    return micromatch.isMatch(path.relative(process.cwd(), filePath), _.castArray(this.options.exclude))
+  }
+
+  /**
+   * 获取组件源文件，.vue 单文件组件会提取 script 内容生成虚拟文件
+   */
+  getComponentSourceFile(filePath: string) {
+    if (!isVueFile(filePath)) {
+      return this.getSourceFile(filePath)
+    }
+    const code = fs.readFileSync(filePath, 'utf-8')
+    const { content, lang } = getSfcScriptContent(code, filePath)
+    const ext = lang === 'tsx' || lang === 'jsx' ? '.tsx' : '.ts'
+    return this.project.createSourceFile(`${filePath}${ext}`, content, { overwrite: true })
+  }
+
+  mergeData(unitData: Record<string, VcData>, compData: Record<string, VcData>, runtimeData: Record<string, VcData> = {}, usages: VcUsageData = {}, locations: VcLocationData = {}, ignored: Record<string, Partial<VcData>> = {}, deprecated: Record<string, Partial<VcData>> = {}): VcCoverageData[] {
     const res: VcCoverageData[] = [] 
+    const emptyData: VcData = { props: [], emits: [], slots: [], exposes: [] }
+    const deprecatedPolicy = this.options.deprecated || 'count'
     
-    // 使用处理后的数据
-    for (const path in unitData) {
+    // 使用处理后的数据，运行时数据和 include 匹配到的组件同样需要统计
+    for (const path of _.union(Object.keys(unitData), Object.keys(runtimeData), Object.keys(compData))) {
       // 如果compData中不存在该路径的组件数据，跳过该路径
       if (!compData[path]) {
         console.warn(`[vc-api-coverage] Warning: No component data found for ${path}`);
@@ -108,6 +457,11 @@ export default class VcCoverageReporter implements Reporter {
           covered: 0,
           details: []
         },
+        emits: {
+          total: 0,
+          covered: 0,
+          details: []
+        },
         slots: {
           total: 0,
           covered: 0,
@@ -119,22 +473,58 @@ export default class VcCoverageReporter implements Reporter {
           details: []
         }
       }
-      const unit = unitData[path]
+      const unit = unitData[path] || emptyData
+      const runtime = runtimeData[path] || emptyData
       const comp = compData[path]
+      // 记录每个 API 分别由静态分析和运行时追踪中的哪一种覆盖，以及覆盖它的测试用例
+      // 测试中传入的 onXxx 都记录为事件，声明为函数 prop 的 onXxx 同样由这些记录覆盖
+      const toDetail = (name: string, key: keyof VcData): VcCoverageDetail => {
+        const keys: Array<keyof VcData> = key === 'props' && /^on[A-Z]/.test(name) ? ['props', 'emits'] : [key]
+        const sources: VcCoverageSource[] = []
+        if (keys.some(k => unit[k].includes(name))) sources.push('static')
+        if (keys.some(k => runtime[k].includes(name))) sources.push('runtime')
+        const tests = _.uniqWith(keys.flatMap(k => usages[path]?.[k]?.[name] || []), _.isEqual)
+        const location = locations[path]?.[key]?.[name]
+        return { name, covered: sources.length > 0, sources, ...(location ? { location } : {}), ...(tests.length > 0 ? { tests } : {}) }
+      }
+      const toIgnoredDetail = (name: string, key: keyof VcData): VcIgnoredDetail => {
+        const location = locations[path]?.[key]?.[name]
+        return { name, ...(location ? { location } : {}) }
+      }
+      const ignoredNames = { props: [], emits: [], slots: [], exposes: [], ...ignored[path] }
+      const deprecatedNames = { props: [], emits: [], slots: [], exposes: [], ...deprecated[path] }
       info.name = path.split('/').slice(-2).join('/') || ''
       info.file = path
       
       info.props.total += comp.props.length
+      info.emits.total += comp.emits.length
       info.slots.total += comp.slots.length
       info.exposes.total += comp.exposes.length
-      info.props.details = comp.props.map(p => ({ name: p, covered: unit.props.includes(p) }))
-      info.slots.details = comp.slots.length > 0 ? comp.slots.map(s => ({ name: s, covered: unit.slots.includes(s) })) : unit.slots.map(s => ({ name: s, covered: true }))
-      info.exposes.details = comp.exposes.map(e => ({ name: e, covered: unit.exposes.includes(e) }))
+      info.props.details = comp.props.map(p => toDetail(p, 'props'))
+      info.emits.details = comp.emits.map(e => toDetail(e, 'emits'))
+      info.slots.details = comp.slots.length > 0 ? comp.slots.map(s => toDetail(s, 'slots')) : _.difference(_.union(unit.slots, runtime.slots), ignoredNames.slots).map(s => toDetail(s, 'slots'))
+      info.exposes.details = comp.exposes.map(e => toDetail(e, 'exposes'))
+      for (const key of categories) {
+        if (ignoredNames[key].length > 0) {
+          info[key].ignored = ignoredNames[key].map(name => toIgnoredDetail(name, key))
+        }
+        const deprecatedDetails = info[key].details.filter(d => deprecatedNames[key].includes(d.name))
+        deprecatedDetails.forEach(d => { d.deprecated = true })
+        // exclude 与 separate 时废弃的 API 不计入覆盖率，separate 时在报告中单独列出
+        if (deprecatedPolicy !== 'count' && deprecatedDetails.length > 0) {
+          info[key].details = _.difference(info[key].details, deprecatedDetails)
+          info[key].total -= deprecatedDetails.length
+          if (deprecatedPolicy === 'separate') {
+            info[key].deprecated = deprecatedDetails
+          }
+        }
+      }
       info.props.covered = info.props.details.filter(d => d.covered).length
+      info.emits.covered = info.emits.details.filter(d => d.covered).length
       info.slots.covered = info.slots.details.filter(d => d.covered).length
       info.exposes.covered = info.exposes.details.filter(d => d.covered).length
-      info.total = info.props.total + info.slots.total + info.exposes.total
-      info.covered = info.props.covered + info.slots.covered + info.exposes.covered
+      info.total = info.props.total + info.emits.total + info.slots.total + info.exposes.total
+      info.covered = info.props.covered + info.emits.covered + info.slots.covered + info.exposes.covered
       res.push(info)
     }
     
@@ -142,12 +532,87 @@ export default class VcCoverageReporter implements Reporter {
     return res
   }
 
-  onCoverage(coverage: unknown) {
+  async onCoverage(coverage: unknown) {
+    await this.report(coverage)
+  }
+
+  /**
+   * 分析组件并生成报告，coverage 为 vitest 的覆盖率数据，独立运行时可不传
+   */
+  async report(coverage?: unknown): Promise<VcCoverageData[]> {
+    this.collectTestData()
     this.analyzerComponent()
-    this.coverageData = this.mergeData(this.unitData, this.compData)
-    this.analyzeFromCoverage(coverage)
-    this.genReport()
+    this.coverageData = this.mergeData(this.unitData, this.compData, this.runtimeData, this.unitUsages, this.compLocations, this.compIgnored, this.compDeprecated)
+    if (coverage) {
+      this.analyzeFromCoverage(coverage)
+    }
+    if (this.options.propValues) {
+      this.analyzeValues(this.coverageData, this.compValues, this.unitValues)
+    }
+    this.analyzeSlotParams(this.coverageData, this.compSlotParams, this.unitSlotParams)
+    return this.reportCoverageData(this.coverageData)
+  }
+
+  /**
+   * 使用已有的覆盖率数据生成报告并执行阈值、基线检查，用于合并分片运行的结果
+   */
+  async reportCoverageData(data: VcCoverageData[]): Promise<VcCoverageData[]> {
+    this.coverageData = data
+    this.updateHistory()
+    // 基线可能就是 outputDir 中上一次的 coverage.json，需要在生成新报告前读取
+    const baseline = this.readBaseline()
+    await this.genReport()
+    this.checkThresholds()
+    if (baseline) {
+      this.checkBaseline(baseline)
+    }
     this.onFinishedCallback?.(this.coverageData)
+    return this.coverageData
+  }
+
+  /**
+   * 将本次运行的汇总追加到 outputDir 中的历史文件，用于展示覆盖率趋势
+   */
+  updateHistory() {
+    const { historySize = 0, outputDir = 'coverage' } = this.options
+    if (historySize <= 0) return
+    this.history = appendHistory(outputDir, createHistoryEntry(this.coverageData), historySize)
+  }
+
+  /**
+   * 检查覆盖率阈值，未达标时输出明细并让 vitest 进程以非零状态退出
+   */
+  checkThresholds() {
+    if (!this.options.thresholds) return
+    const violations = checkThresholds(this.coverageData, this.options.thresholds)
+    if (violations.length === 0) return
+    for (const violation of violations) {
+      logError('vc-api-coverage', `ERROR: ${formatThresholdViolation(violation)}`)
+    }
+    process.exitCode = 1
+  }
+
+  readBaseline(): VcCoverageData[] | undefined {
+    if (!this.options.baseline) return
+    try {
+      return readCoverageReport(this.options.baseline)
+    } catch (error) {
+      logError('vc-api-coverage', `Failed to read baseline ${this.options.baseline}:`, error)
+      return
+    }
+  }
+
+  /**
+   * 与基线 coverage.json 对比，输出回退、新增未测试及已移除的 API
+   */
+  checkBaseline(baseline: VcCoverageData[]): VcBaselineDiff {
+    const diff = compareWithBaseline(this.coverageData, baseline)
+    console.log(formatBaselineDiff(diff))
+    if (this.options.failOnRegression && diff.regressions.length > 0) {
+      logError('vc-api-coverage', `ERROR: ${diff.regressions.length} APIs covered in the baseline are no longer covered`)
+      process.exitCode = 1
+    }
+    return diff
   }
 
   checkFromCoverage(coverage: any, name: string) {
@@ -168,9 +633,45 @@ export default class VcCoverageReporter implements Reporter {
       for (const method of item.exposes.details) {
         if (this.checkFromCoverage(coverage, method.name) && !method.covered) {
           method.covered = true
+          method.sources = [...(method.sources || []), 'coverage']
           item.exposes.covered += 1
+          item.covered += 1
         }
       }
+      for (const method of item.exposes.deprecated || []) {
+        if (this.checkFromCoverage(coverage, method.name) && !method.covered) {
+          method.covered = true
+          method.sources = [...(method.sources || []), 'coverage']
+        }
+      }
+    }
+  }
+
+  /**
+   * 为字面量联合、枚举与布尔类型的 prop 补充每个取值的覆盖情况，不影响 prop 本身的覆盖统计
+   */
+  analyzeValues(coverageData: VcCoverageData[], compValues: VcValueData, unitValues: VcValueData) {
+    for (const item of coverageData) {
+      for (const detail of [...item.props.details, ...item.props.deprecated || []]) {
+        const values = compValues[item.file]?.[detail.name]
+        if (!values) continue
+        const passed = unitValues[item.file]?.[detail.name] || []
+        detail.values = values.map(value => ({ value, covered: passed.includes(value) }))
+      }
+    }
+  }
+
+  /**
+   * 为作用域插槽补充每个参数的覆盖情况，不影响插槽本身的覆盖统计
+   */
+  analyzeSlotParams(coverageData: VcCoverageData[], compSlotParams: VcSlotParamData, unitSlotParams: VcSlotParamData) {
+    for (const item of coverageData) {
+      for (const detail of [...item.slots.details, ...item.slots.deprecated || []]) {
+        const params = compSlotParams[item.file]?.[detail.name]
+        if (!params) continue
+        const used = unitSlotParams[item.file]?.[detail.name] || []
+        detail.params = params.map(name => ({ name, covered: used.includes(name) }))
+      }
     }
   }
 
@@ -183,10 +684,18 @@ export default class VcCoverageReporter implements Reporter {
       const report = generateCliReport(this.coverageData);
       
       console.log('\n' + report);
+      if (this.history.length > 1) {
+        console.log(generateCliDelta(this.history[this.history.length - 1], this.history[this.history.length - 2]));
+      }
+      const deprecated = generateCliDeprecated(this.coverageData);
+      if (deprecated) {
+        console.log(deprecated);
+      }
     }
 
     if (shouldGenerateFormat('html')) {
       this.htmlReporter.setCoverageData(this.coverageData);
+      this.htmlReporter.setHistory(this.history);
       await this.htmlReporter.generateReport();
       if (this.options.openBrowser) {
         const htmlPath = path.join(process.cwd(), this.options.outputDir || 'coverage-api', 'index.html');
@@ -199,6 +708,26 @@ export default class VcCoverageReporter implements Reporter {
       await this.jsonReporter.generateReport();
     }
 
+    if (shouldGenerateFormat('lcov')) {
+      this.lcovReporter.setCoverageData(this.coverageData);
+      await this.lcovReporter.generateReport();
+    }
+
+    if (shouldGenerateFormat('cobertura')) {
+      this.coberturaReporter.setCoverageData(this.coverageData);
+      await this.coberturaReporter.generateReport();
+    }
+
+    if (shouldGenerateFormat('markdown')) {
+      this.markdownReporter.setCoverageData(this.coverageData);
+      await this.markdownReporter.generateReport();
+    }
+
+    if (shouldGenerateFormat('junit')) {
+      this.junitReporter.setCoverageData(this.coverageData);
+      await this.junitReporter.generateReport();
+    }
+
     console.log('[vc-api-coverage] Report generation finished.');
   }
 
@@ -0,0 +1,19 @@
+import fg from 'fast-glob';
+import VcCoverageReporter from './ApiReporter';
+import type { VcAnalyzeOptions, VcCoverageData } from './types';
+
+/**
+ * 不运行 vitest，直接静态分析组件与测试文件并生成报告
+ */
+export async function analyze(options: VcAnalyzeOptions): Promise<VcCoverageData[]> {
+  const { tests, components, ...reporterOptions } = options;
+  const reporter = new VcCoverageReporter({
+    ...reporterOptions,
+    include: components || reporterOptions.include,
+  });
+  const testFiles = fg.sync(tests, { cwd: process.cwd(), absolute: true, ignore: ['**/node_modules/**'] });
+  for (const testFile of testFiles) {
+    reporter.analyzeTestFile(testFile);
+  }
+  return reporter.report();
+}
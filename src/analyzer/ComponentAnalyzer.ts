@@ -1,48 +1,281 @@
-import { SourceFile, Node, Type, Expression, ObjectLiteralExpression, SyntaxKind } from "ts-morph";
-import { isComponentType } from "../common/utils";
+import { SourceFile, Node, Type, Expression, ObjectLiteralExpression, SyntaxKind, CallExpression, ts } from "ts-morph";
+import { getLiteralValues, isComponentType, toEventName } from "../common/utils";
+import type { VcCoverageCategory, VcSourceLocation } from "../types";
+
+interface NamedDeclaration {
+    name: string;
+    node?: Node;
+}
+
+// 忽略 API 的注释：写在声明前或声明行末的 vc-api-coverage ignore、上一行的 ignore-next-line 和整个文件的 ignore-file
+const ignoreCommentPattern = /vc-api-coverage\s+ignore(?![-\w])|@coverageIgnore\b/;
+const ignoreNextLinePattern = /vc-api-coverage\s+ignore-next-line\b/;
+const ignoreFilePattern = /\/[/*]\**\s*vc-api-coverage\s+ignore-file\b/;
+
+// Vue 为每个组件注入的属性，默认不作为组件 API 统计
+export const internalProps = ['key', 'ref', 'ref_for', 'ref_key', 'onVnodeBeforeMount', 'onVnodeMounted', 'onVnodeBeforeUpdate', 'onVnodeUpdated', 'onVnodeBeforeUnmount', 'onVnodeUnmounted', 'class', 'style'];
 
 class ComponentAnalyzer {
     private sourceFile: SourceFile;
     private props = new Set<string>();
+    private emits = new Set<string>();
     private slots = new Set<string>();
     private exposes = new Set<string>();
+    private ignored: Record<VcCoverageCategory, Set<string>> = { props: new Set(), emits: new Set(), slots: new Set(), exposes: new Set() };
+    private deprecated: Record<VcCoverageCategory, Set<string>> = { props: new Set(), emits: new Set(), slots: new Set(), exposes: new Set() };
+    private locations: Record<VcCoverageCategory, Record<string, VcSourceLocation>> = { props: {}, emits: {}, slots: {}, exposes: {} };
+    private values: Record<string, string[]> = {};
+    private slotParams: Record<string, string[]> = {};
     private code: string;
+    private internalProps: string[];
+    private propValues: boolean;
 
-    constructor(sourceFile: SourceFile) {
+    constructor(sourceFile: SourceFile, options: { internalProps?: string[], propValues?: boolean } = {}) {
         this.sourceFile = sourceFile;
         this.code = sourceFile.getFullText();
+        this.internalProps = options.internalProps ?? internalProps;
+        this.propValues = options.propValues ?? false;
     }
 
     analyze() {
         this.analyzerComponentType();
+        this.analyzeScriptSetupMacros();
+        // 同一个 API 有多处声明时，任一声明被忽略即视为忽略
+        const getNames = (key: VcCoverageCategory) => Array.from(this[key]).filter(name => !this.ignored[key].has(name));
         return {
-            props: Array.from(this.props),
-            slots: Array.from(this.slots),
-            exposes: Array.from(this.exposes),
+            props: getNames('props'),
+            emits: getNames('emits'),
+            slots: getNames('slots'),
+            exposes: getNames('exposes'),
         }
     }
 
+    /**
+     * 获取通过注释忽略的 API，需在 analyze 之后调用
+     */
+    getIgnored() {
+        return {
+            props: Array.from(this.ignored.props),
+            emits: Array.from(this.ignored.emits),
+            slots: Array.from(this.ignored.slots),
+            exposes: Array.from(this.ignored.exposes),
+        }
+    }
+
+    /**
+     * 获取每个 API 的声明位置，需在 analyze 之后调用
+     */
+    getLocations() {
+        return this.locations;
+    }
+
+    /**
+     * 获取声明时带有 JSDoc @deprecated 标记的 API，需在 analyze 之后调用
+     */
+    getDeprecated() {
+        return {
+            props: Array.from(this.deprecated.props),
+            emits: Array.from(this.deprecated.emits),
+            slots: Array.from(this.deprecated.slots),
+            exposes: Array.from(this.deprecated.exposes),
+        }
+    }
+
+    /**
+     * 获取类型为字面量联合、枚举或布尔的 prop 的全部取值，需在 analyze 之后调用
+     */
+    getPropValues() {
+        return this.values;
+    }
+
+    /**
+     * 获取作用域插槽传给插槽函数的参数属性，需在 analyze 之后调用
+     */
+    getSlotParams() {
+        return this.slotParams;
+    }
+
+    // 从插槽函数的第一个参数类型中获取参数属性，SlotsType 生成的插槽函数参数为元组形式的剩余参数
+    private addSlotParams(name: string, type: Type, node: Node) {
+        if (this.slotParams[name]) return;
+        const param = type.getNonNullableType().getCallSignatures()[0]?.getParameters()[0];
+        if (!param) return;
+        let paramType = param.getTypeAtLocation(node);
+        if (paramType.isTuple()) {
+            paramType = paramType.getTupleElements()[0];
+        }
+        if (!paramType || paramType.isAny() || paramType.isUnknown()) return;
+        const params = paramType.getNonNullableType().getProperties().map(symbol => symbol.getName());
+        if (params.length > 0) {
+            this.slotParams[name] = params;
+        }
+    }
+
+    // 记录 prop 类型中的字面量取值，只有一种取值的 prop 传入即覆盖，不需要记录
+    private addPropValues(name: string, type: Type) {
+        if (!this.propValues || this.values[name]) return;
+        const values = getLiteralValues(type, true);
+        if (values && values.length > 1) {
+            this.values[name] = values;
+        }
+    }
+
+    // 记录组件 API 以及它的声明位置
+    private addApi(key: VcCoverageCategory, name: string, node?: Node) {
+        if (node && this.isIgnored(node)) {
+            this.ignored[key].add(name);
+        } else {
+            this[key].add(name);
+        }
+        if (node && this.getJsDocTagNames(node).includes('deprecated')) {
+            this.deprecated[key].add(name);
+        }
+        if (node && !this.locations[key][name]) {
+            this.locations[key][name] = this.getLocation(node);
+        }
+    }
+
+    // 声明所在文件、声明前的注释或上一行带有忽略注释
+    private isIgnored(node: Node): boolean {
+        const sourceFile = node.getSourceFile();
+        const text = sourceFile.getFullText();
+        if (ignoreFilePattern.test(text)) return true;
+        if (ignoreCommentPattern.test(this.getComments(node))) return true;
+        const { line } = sourceFile.getLineAndColumnAtPos(node.getStart());
+        const previousLine = line > 1 ? text.split('\n')[line - 2] : '';
+        return ignoreNextLinePattern.test(previousLine);
+    }
+
+    // 声明的注释：声明前独占一行或与声明同一行的注释，以及声明（含其后的逗号）所在行末尾的注释
+    // 上一个元素行末的注释属于上一个元素，不计入
+    private getComments(node: Node): string {
+        const text = node.getSourceFile().getFullText();
+        const comma = node.getNextSiblingIfKind(SyntaxKind.CommaToken);
+        const before = this.getSameLineComments(text, node.getFullStart());
+        const after = this.getSameLineComments(text, (comma ?? node).getEnd());
+        const ranges = [
+            ...(before.endsLine ? [] : before.ranges),
+            ...(ts.getLeadingCommentRanges(text, node.getFullStart()) ?? []),
+            ...(after.endsLine ? after.ranges : []),
+        ];
+        return ranges.map(range => text.slice(range.pos, range.end)).join('\n');
+    }
+
+    // 声明上的 JSDoc 标签，数组中的字符串不能携带 JSDoc，解析它前面的 JSDoc 注释
+    private getJsDocTagNames(node: Node): string[] {
+        if (!Node.isStringLiteral(node)) {
+            return ts.getJSDocTags(node.compilerNode).map(tag => tag.tagName.text);
+        }
+        const text = node.getSourceFile().getFullText();
+        const jsDocs = (ts.getLeadingCommentRanges(text, node.getFullStart()) ?? [])
+            .map(range => text.slice(range.pos, range.end))
+            .filter(comment => comment.startsWith('/**'));
+        if (jsDocs.length === 0) return [];
+        const [statement] = ts.createSourceFile('jsdoc.ts', `${jsDocs.join('\n')}\nvoid 0;`, ts.ScriptTarget.Latest, true).statements;
+        return ts.getJSDocTags(statement).map(tag => tag.tagName.text);
+    }
+
+    // pos 之后同一行的注释，以及这些注释之后是否就是行尾
+    private getSameLineComments(text: string, pos: number) {
+        const ranges = ts.getTrailingCommentRanges(text, pos) ?? [];
+        const last = ranges[ranges.length - 1];
+        return { ranges, endsLine: !!last && /^[ \t]*(\r?\n|$)/.test(text.slice(last.end)) };
+    }
+
+    private getLocation(node: Node): VcSourceLocation {
+        const sourceFile = node.getSourceFile();
+        const { line, column } = sourceFile.getLineAndColumnAtPos(node.getStart());
+        // .vue 单文件组件分析的是保留了原始行列号的虚拟文件
+        return { file: sourceFile.getFilePath().replace(/\.vue\.tsx?$/, '.vue'), line, column };
+    }
+
     analyzePropsAndEmits(instanceType: Type, exportedExpression: Expression) {
-        const internalProps = ['key', 'ref', 'ref_for', 'ref_key', 'onVnodeBeforeMount', 'onVnodeMounted', 'onVnodeBeforeUpdate', 'onVnodeUpdated', 'onVnodeBeforeUnmount', 'onVnodeUnmounted', 'class', 'style'];
         const dollarPropsSymbol = instanceType.getProperty('$props');
         if (!dollarPropsSymbol) return
+        const emitNames = this.getEmitNames(instanceType, exportedExpression);
+        const emitDeclarations = this.getEmitsOptionDeclarations(exportedExpression);
         const dollarPropsType = dollarPropsSymbol.getTypeAtLocation(exportedExpression);
         dollarPropsType.getProperties().forEach(propSymbol => {
             const propName = propSymbol.getName();
-            if (internalProps.includes(propName)) {
+            if (this.internalProps.includes(propName)) {
+                return;
+            }
+            // $props 中由 emits 声明生成的 onXxx 属性归为事件
+            if (emitNames.includes(propName)) {
+                this.addApi('emits', propName, emitDeclarations.get(propName) ?? propSymbol.getDeclarations()[0]);
                 return;
             }
-            this.props.add(propName);
+            this.addApi('props', propName, propSymbol.getDeclarations()[0]);
+            this.addPropValues(propName, propSymbol.getTypeAtLocation(exportedExpression));
         });
     }
 
+    /**
+     * $props 中的 onXxx 属性由类型推导生成，没有声明位置，需要从 emits 选项中查找
+     */
+    private getEmitsOptionDeclarations(exportedExpression: Expression): Map<string, Node> {
+        const declarations = new Map<string, Node>();
+        const emitsOption = this.getComponentOptions(exportedExpression)?.getProperty('emits');
+        if (!emitsOption || !Node.isPropertyAssignment(emitsOption)) return declarations;
+
+        let initializer: Node | undefined = emitsOption.getInitializer();
+        // emits: buttonEmits 引用了其他位置定义的数组
+        if (initializer && Node.isIdentifier(initializer)) {
+            const definition = initializer.getDefinitionNodes()[0];
+            initializer = Node.isVariableDeclaration(definition) ? definition.getInitializer() : initializer;
+        }
+        if (initializer && Node.isAsExpression(initializer)) {
+            initializer = initializer.getExpression();
+        }
+        if (!initializer) return declarations;
+
+        if (Node.isArrayLiteralExpression(initializer)) {
+            for (const item of initializer.getElements()) {
+                declarations.set(toEventName(this.getItemName(item)), item);
+            }
+            return declarations;
+        }
+        for (const symbol of initializer.getType().getProperties()) {
+            const declaration = symbol.getDeclarations()[0];
+            if (declaration) {
+                declarations.set(toEventName(symbol.getName()), declaration);
+            }
+        }
+        return declarations;
+    }
+
+    /**
+     * 从 $emit 的调用签名中获取 emits 声明的事件名，并转换为 onXxx 形式
+     */
+    private getEmitNames(instanceType: Type, exportedExpression: Expression): string[] {
+        const dollarEmitSymbol = instanceType.getProperty('$emit');
+        if (!dollarEmitSymbol) return [];
+        const dollarEmitType = dollarEmitSymbol.getTypeAtLocation(exportedExpression);
+        const names: string[] = [];
+        for (const signature of dollarEmitType.getCallSignatures()) {
+            const eventParam = signature.getParameters()[0];
+            if (!eventParam) continue;
+            const eventType = eventParam.getTypeAtLocation(exportedExpression);
+            names.push(...this.getStringLiteralValues(eventType).map(toEventName));
+        }
+        return names;
+    }
+
+    private getStringLiteralValues(type: Type): string[] {
+        const literalTypes = type.isUnion() ? type.getUnionTypes() : [type];
+        return literalTypes
+            .filter(literalType => literalType.isStringLiteral())
+            .map(literalType => literalType.getLiteralValue() as string);
+    }
+
     analyzeSlots(instanceType: Type, exportedExpression: Expression) {
         const dollarPropsSymbol = instanceType.getProperty('$slots');
         if (!dollarPropsSymbol) return
         const dollarPropsType = dollarPropsSymbol.getTypeAtLocation(exportedExpression);
         dollarPropsType.getProperties().forEach(propSymbol => {
             const propName = propSymbol.getName();
-            this.slots.add(propName);
+            this.addApi('slots', propName, propSymbol.getDeclarations()[0]);
+            this.addSlotParams(propName, propSymbol.getTypeAtLocation(exportedExpression), exportedExpression);
         });
     }
 
@@ -62,20 +295,16 @@ class ComponentAnalyzer {
                 this.code.includes('context.expose'));
 
         if (!hasExposeContextCall) return;
-        const matches = this.code.match(/expose\(\s*\{([^}]+)\}\s*\)/g);
-
-        if (matches && matches.length > 0) {
-            for (const match of matches) {
-                const propsStr = match.replace(/expose\(\s*\{/, '').replace(/\}\s*\)/, '');
-                const propMatches = propsStr.match(/(\w+),?/g);
-
-                if (propMatches) {
-                    for (const prop of propMatches) {
-                        const cleanProp = prop.replace(/,/g, '').trim();
-                        if (cleanProp && !this.exposes.has(cleanProp)) {
-                            this.exposes.add(cleanProp);
-                        }
-                    }
+
+        for (const match of this.code.matchAll(/expose\(\s*\{([^}]+)\}\s*\)/g)) {
+            // 注释中的单词不是暴露的属性，替换为等长的空格以保持位置不变
+            const propsStr = match[1].replace(/\/\*[\s\S]*?\*\/|\/\/.*$/gm, comment => ' '.repeat(comment.length));
+            const propsStart = match.index! + match[0].indexOf('{') + 1;
+
+            for (const propMatch of propsStr.matchAll(/(\w+),?/g)) {
+                const cleanProp = propMatch[1];
+                if (cleanProp && !this.exposes.has(cleanProp)) {
+                    this.addApi('exposes', cleanProp, this.sourceFile.getDescendantAtPos(propsStart + propMatch.index!));
                 }
             }
         }
@@ -92,7 +321,7 @@ class ComponentAnalyzer {
         for (const item of exposeItems) {
             const itemName = this.getItemName(item);
             if (itemName && !this.exposes.has(itemName)) {
-                this.exposes.add(itemName);
+                this.addApi('exposes', itemName, item);
             }
         }
     }
@@ -248,6 +477,91 @@ class ComponentAnalyzer {
         return componentOptions;
     }
 
+    /**
+     * 分析 script setup 中的编译宏
+     * defineProps、defineEmits、defineSlots、defineModel、defineExpose
+     */
+    analyzeScriptSetupMacros() {
+        const macroCalls = this.sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression).filter(call => {
+            const expression = call.getExpression();
+            return Node.isIdentifier(expression) && expression.getText().startsWith('define');
+        });
+        for (const call of macroCalls) {
+            switch (call.getExpression().getText()) {
+                case 'defineProps':
+                    this.getMacroNames(call).forEach(({ name, node }) => this.addApi('props', name, node));
+                    // defineProps 的返回值是解析后的 props 类型，类型参数与运行时声明两种写法都适用
+                    call.getType().getProperties().forEach(symbol => this.addPropValues(symbol.getName(), symbol.getTypeAtLocation(call)));
+                    break;
+                case 'defineEmits':
+                    this.getEmitMacroNames(call).forEach(({ name, node }) => this.addApi('emits', toEventName(name), node));
+                    break;
+                case 'defineSlots':
+                    this.getMacroNames(call).forEach(({ name, node }) => this.addApi('slots', name, node));
+                    call.getType().getProperties().forEach(symbol => this.addSlotParams(symbol.getName(), symbol.getTypeAtLocation(call), call));
+                    break;
+                case 'defineExpose':
+                    this.getMacroNames(call).forEach(({ name, node }) => this.addApi('exposes', name, node));
+                    break;
+                case 'defineModel': {
+                    const modelName = this.getModelName(call);
+                    this.addApi('props', modelName, call);
+                    this.addApi('emits', toEventName(`update:${modelName}`), call);
+                    break;
+                }
+            }
+        }
+    }
+
+    /**
+     * 获取宏定义的名称，支持类型参数、对象和数组三种写法
+     */
+    private getMacroNames(call: CallExpression): NamedDeclaration[] {
+        const typeArg = call.getTypeArguments()[0];
+        if (typeArg) {
+            return typeArg.getType().getProperties().map(symbol => ({ name: symbol.getName(), node: symbol.getDeclarations()[0] }));
+        }
+        const arg = call.getArguments()[0];
+        if (!arg) return [];
+        if (Node.isObjectLiteralExpression(arg)) {
+            return arg.getProperties()
+                .filter(prop => Node.isPropertyAssignment(prop) || Node.isShorthandPropertyAssignment(prop) || Node.isMethodDeclaration(prop))
+                .map(prop => ({ name: prop.getName().replace(/[\'\"\`]/g, ''), node: prop }));
+        }
+        if (Node.isArrayLiteralExpression(arg)) {
+            return arg.getElements().map(item => ({ name: this.getItemName(item), node: item }));
+        }
+        return arg.getType().getProperties().map(symbol => ({ name: symbol.getName(), node: symbol.getDeclarations()[0] }));
+    }
+
+    /**
+     * defineEmits 的类型参数可以是调用签名 `(e: 'change', value: string): void`
+     * 也可以是具名元组 `{ change: [value: string] }`
+     */
+    private getEmitMacroNames(call: CallExpression): NamedDeclaration[] {
+        const typeArg = call.getTypeArguments()[0];
+        if (!typeArg) return this.getMacroNames(call);
+        const type = typeArg.getType();
+        const callSignatures = type.getCallSignatures();
+        if (callSignatures.length === 0) return this.getMacroNames(call);
+        const names: NamedDeclaration[] = [];
+        for (const signature of callSignatures) {
+            const eventParam = signature.getParameters()[0];
+            if (!eventParam) continue;
+            const node = signature.getDeclaration();
+            names.push(...this.getStringLiteralValues(eventParam.getTypeAtLocation(typeArg)).map(name => ({ name, node })));
+        }
+        return names;
+    }
+
+    private getModelName(call: CallExpression): string {
+        const arg = call.getArguments()[0];
+        if (arg && Node.isStringLiteral(arg)) {
+            return arg.getLiteralValue();
+        }
+        return 'modelValue';
+    }
+
     analyzerComponentType() {
         const exportedExpression = this.getExportedExpression();
         if (!exportedExpression) return;
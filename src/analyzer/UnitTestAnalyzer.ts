@@ -1,24 +1,60 @@
-import { Project, SyntaxKind, Node, SourceFile, CallExpression, ObjectLiteralExpression, JsxSelfClosingElement, JsxElement, Identifier, Symbol } from 'ts-morph';
-import { isComponentFile, isComponentType } from '../common/utils';
+import { Project, SyntaxKind, Node, SourceFile, CallExpression, ObjectLiteralExpression, JsxSelfClosingElement, JsxElement, JsxAttribute, Identifier, Symbol, ts } from 'ts-morph';
+import path from 'path';
+import { parse as parseTemplate, NodeTypes, RootNode, ElementNode, DirectiveNode, TemplateChildNode } from '@vue/compiler-dom';
+import { camelize, getLiteralValues, isComponentFile, isComponentType, isVueFile, toEventName } from '../common/utils';
+import { resolvePathAlias } from '../common/tsconfig';
+import type { VcSlotParamData, VcUsageData, VcValueData } from '../types';
 
 interface TestUnit {
     props?: string[];
     emits?: string[];
     slots?: string[];
+    exposes?: string[];
 }
 
 interface TestUnitsResult {
     [componentName: string]: TestUnit;
 }
 
+const testFunctionNames = ['describe', 'it', 'test'];
+const mountFunctionNames = ['mount', 'shallowMount'];
+const findComponentNames = ['findComponent', 'getComponent'];
+
+// 解析模板绑定中的字符串、数字与布尔字面量，如 :size="'large'"
+function parseTemplateLiteral(expression: string): string | undefined {
+    const text = expression.trim();
+    const quoted = text.match(/^(['"`])(.*)\1$/);
+    if (quoted) return quoted[2];
+    if (/^(true|false|-?\d+(\.\d+)?)$/.test(text)) return text;
+    return undefined;
+}
+
+// 解析模板中 v-slot 的解构参数，如 #row="{ item: { id }, index: i }"，按箭头函数的参数解析以支持嵌套解构
+function parseTemplateSlotParams(expression: string): string[] {
+    const sourceFile = ts.createSourceFile('slot.ts', `(${expression}) => 0`, ts.ScriptTarget.Latest, true);
+    const [statement] = sourceFile.statements;
+    if (!statement || !ts.isExpressionStatement(statement) || !ts.isArrowFunction(statement.expression)) return [];
+    const name = statement.expression.parameters[0]?.name;
+    if (!name || !ts.isObjectBindingPattern(name)) return [];
+    return name.elements
+        .filter(element => !element.dotDotDotToken)
+        .map(element => (element.propertyName ?? element.name).getText(sourceFile));
+}
+
 class TestUnitAnalyzer {
     private sourceFile: SourceFile;
     private result: TestUnitsResult = {};
+    private usages: VcUsageData = {};
+    private values: VcValueData = {};
+    private slotParams: VcSlotParamData = {};
+    private currentTitle: string[] = [];
     private project: Project;
+    private propValues: boolean;
 
-    constructor(sourceFile: SourceFile, project: Project) {
+    constructor(sourceFile: SourceFile, project: Project, options: { propValues?: boolean } = {}) {
         this.project = project;
         this.sourceFile = sourceFile;
+        this.propValues = options.propValues ?? false;
     }
 
     isValidTestCall(testCall: CallExpression) {
@@ -50,28 +86,132 @@ class TestUnitAnalyzer {
 
         for (const testCall of testCalls) {
             if (!this.isValidTestCall(testCall)) continue;
+            this.currentTitle = this.getTestTitle(testCall);
             // Analyze traditional mount method calls
             this.analyzeTraditionalMountCalls(testCall);
 
             // Analyze JSX elements in the file
             this.analyzeJSXElements(testCall);
+
+            this.analyzeExposeAccess(testCall);
         }
 
 
-        const data = this.transformResult(this.result);
-        return data;
+        return this.result;
+    }
+
+    /**
+     * 获取每个 API 被哪些测试用例使用，需在 analyze 之后调用
+     */
+    public getUsages(): VcUsageData {
+        return this.usages;
+    }
+
+    /**
+     * 获取测试中传给每个 prop 的字面量取值，需在 analyze 之后调用
+     */
+    public getPropValues(): VcValueData {
+        return this.values;
     }
 
+    /**
+     * 获取测试中插槽函数读取的作用域插槽参数，需在 analyze 之后调用
+     */
+    public getSlotParams(): VcSlotParamData {
+        return this.slotParams;
+    }
 
-    transformResult(result: TestUnitsResult) {
-        for (const componentName in result) {
-            const testUnit = result[componentName];
-            if (testUnit.emits) {
-                testUnit.props = [...new Set([...(testUnit.props || []), ...testUnit.emits])]
+    // 获取测试用例由外到内的 describe 与 it/test 标题
+    private getTestTitle(testCall: CallExpression): string[] {
+        const title: string[] = [];
+        let node: Node | undefined = testCall;
+        while (node) {
+            if (Node.isCallExpression(node)) {
+                const expression = node.getExpression();
+                const name = Node.isPropertyAccessExpression(expression) ? expression.getExpression().getText() : expression.getText();
+                const [titleArg] = node.getArguments();
+                if (testFunctionNames.includes(name) && titleArg) {
+                    const isLiteral = Node.isStringLiteral(titleArg) || Node.isNoSubstitutionTemplateLiteral(titleArg);
+                    title.unshift(isLiteral ? titleArg.getLiteralText() : titleArg.getText());
+                }
             }
+            node = node.getParent();
         }
-        return result;
-    }  
+        return title;
+    }
+
+    // 记录组件 API 以及它在当前测试用例中的使用位置
+    private addApi(componentFile: string, key: keyof TestUnit, name: string, pos: number) {
+        const component = this.result[componentFile] ||= {};
+        const names = component[key] ||= [];
+        if (!names.includes(name)) names.push(name);
+
+        const { line, column } = this.sourceFile.getLineAndColumnAtPos(pos);
+        const usages = ((this.usages[componentFile] ||= {})[key] ||= {})[name] ||= [];
+        if (usages.some(usage => usage.line === line && usage.column === column)) return;
+        usages.push({ file: this.sourceFile.getFilePath(), title: this.currentTitle, line, column });
+    }
+
+    private addPropValues(componentFile: string, name: string, values: string[] = []) {
+        if (!this.propValues || values.length === 0) return;
+        const propValues = (this.values[componentFile] ||= {})[name] ||= [];
+        for (const value of values) {
+            if (!propValues.includes(value)) propValues.push(value);
+        }
+    }
+
+    private addSlotParams(componentFile: string, slotName: string, params: string[]) {
+        if (params.length === 0) return;
+        const slotParams = (this.slotParams[componentFile] ||= {})[slotName] ||= [];
+        for (const param of params) {
+            if (!slotParams.includes(param)) slotParams.push(param);
+        }
+    }
+
+    /**
+     * 获取插槽函数读取的参数属性，支持参数解构以及在函数体中通过参数访问属性
+     */
+    private getSlotFunctionParams(node: Node | undefined): string[] {
+        if (node && Node.isPropertyAssignment(node)) {
+            node = node.getInitializer();
+        }
+        if (!node || !(Node.isArrowFunction(node) || Node.isFunctionExpression(node) || Node.isMethodDeclaration(node))) return [];
+        const param = node.getParameters()[0];
+        if (!param) return [];
+        const nameNode = param.getNameNode();
+        if (Node.isObjectBindingPattern(nameNode)) {
+            return nameNode.getElements()
+                .filter(element => !element.getDotDotDotToken())
+                .map(element => element.getPropertyNameNode()?.getText() ?? element.getName());
+        }
+        if (!Node.isIdentifier(nameNode)) return [];
+        const paramName = nameNode.getText();
+        const params: string[] = [];
+        node.forEachDescendant(descendant => {
+            if (Node.isPropertyAccessExpression(descendant) && descendant.getExpression().getText() === paramName) {
+                params.push(descendant.getName());
+            } else if (Node.isVariableDeclaration(descendant) && descendant.getInitializer()?.getText() === paramName) {
+                const declarationName = descendant.getNameNode();
+                if (Node.isObjectBindingPattern(declarationName)) {
+                    params.push(...declarationName.getElements()
+                        .filter(element => !element.getDotDotDotToken())
+                        .map(element => element.getPropertyNameNode()?.getText() ?? element.getName()));
+                }
+            }
+        });
+        return params;
+    }
+
+    // 模板中 v-slot 读取的参数，参数未解构时在插槽内容中查找 scope.xxx 形式的访问
+    private getTemplateSlotParams(directive: DirectiveNode, content: ElementNode): string[] {
+        if (!directive.exp || directive.exp.type !== NodeTypes.SIMPLE_EXPRESSION) return [];
+        const expression = directive.exp.content.trim();
+        if (/^[A-Za-z_$][\w$]*$/.test(expression)) {
+            const accessPattern = new RegExp(`\\b${expression.replace(/\$/g, '\\$')}\\.([A-Za-z_$][\\w$]*)`, 'g');
+            return content.children.flatMap(child => Array.from(child.loc.source.matchAll(accessPattern), match => match[1]));
+        }
+        return parseTemplateSlotParams(expression);
+    }
 
     private resolveComponentPath(identifier: Identifier, importSymbol?: Symbol) {
         try {
@@ -99,6 +239,15 @@ class TestUnitAnalyzer {
         }
     }
 
+    // .vue 模块无法被 ts 解析，相对路径与 paths 别名需要转换为绝对路径
+    private resolveModulePath(modulePath: string) {
+        if (!isVueFile(modulePath)) return modulePath;
+        if (modulePath.startsWith('.')) {
+            return path.resolve(path.dirname(this.sourceFile.getFilePath()), modulePath);
+        }
+        return resolvePathAlias(modulePath, this.project.getCompilerOptions()) || modulePath;
+    }
+
     // 解析ts路径
     resolveTsPath(declarationNode: Node) {
         if (!Node.isExportAssignment(declarationNode)) return null;
@@ -172,19 +321,140 @@ class TestUnitAnalyzer {
     // 处理mount(Component, options)或render(Component, options)
     processMountComponent(componentArgNode: Node, optionsNode?: ObjectLiteralExpression) {
         if (!optionsNode) return
-        const componentName = componentArgNode.getText();
-
-        const importDecl = this.getImportDecl(componentName, this.sourceFile);
-        if (!importDecl) return;
-        const modulePath = importDecl.getModuleSpecifier().getLiteralValue();
-        const componentFile = this.resolveComponentPath(componentArgNode as Identifier) || modulePath;
+        const componentFile = this.resolveImportedComponent(componentArgNode);
         if (!componentFile) return;
         if (!this.result[componentFile]) {
             this.result[componentFile] = {};
         }
-        this.extractProps(optionsNode, this.result[componentFile]);
-        this.extractEmits(optionsNode, this.result[componentFile]);
-        this.extractSlots(optionsNode, this.result[componentFile]);
+        this.extractProps(optionsNode, componentFile);
+        this.extractEmits(optionsNode, componentFile);
+        this.extractSlots(optionsNode, componentFile);
+    }
+
+    // 获取测试文件中导入的组件标识符对应的组件文件
+    private resolveImportedComponent(componentNode: Node): string | null {
+        if (!Node.isIdentifier(componentNode)) return null;
+        const importDecl = this.getImportDecl(componentNode.getText(), this.sourceFile);
+        if (!importDecl) return null;
+        const modulePath = this.resolveModulePath(importDecl.getModuleSpecifier().getLiteralValue());
+        return this.resolveComponentPath(componentNode) || modulePath;
+    }
+
+    /**
+     * 分析通过组件实例访问的 expose
+     * 支持 wrapper.vm.focus()、findComponent(Button).vm.value 以及模板 ref 的 btnRef.value.focus()
+     */
+    private analyzeExposeAccess(testCall: CallExpression) {
+        testCall.forEachDescendant(node => {
+            let nameNode: Node | undefined;
+            let name: string | undefined;
+            let receiver: Node | undefined;
+            if (Node.isPropertyAccessExpression(node)) {
+                nameNode = node.getNameNode();
+                name = node.getName();
+                receiver = node.getExpression();
+            } else if (Node.isElementAccessExpression(node)) {
+                nameNode = node.getArgumentExpression();
+                name = nameNode && (Node.isStringLiteral(nameNode) || Node.isNoSubstitutionTemplateLiteral(nameNode)) ? nameNode.getLiteralText() : undefined;
+                receiver = node.getExpression();
+            }
+            // $el、$emit 等是组件实例的内置属性
+            if (!nameNode || !name || !receiver || name.startsWith('$')) return;
+            const componentFile = this.resolveInstanceComponent(this.skipOuterExpressions(receiver));
+            if (componentFile) {
+                this.addApi(componentFile, 'exposes', name, nameNode.getStart());
+            }
+        });
+    }
+
+    // 去掉括号、类型断言、非空断言与 await
+    private skipOuterExpressions(node: Node): Node {
+        while (Node.isParenthesizedExpression(node) || Node.isAsExpression(node) || Node.isNonNullExpression(node) || Node.isAwaitExpression(node)) {
+            node = node.getExpression();
+        }
+        return node;
+    }
+
+    // 组件实例表达式 xxx.vm 与模板 ref 的 xxx.value 对应的组件文件
+    private resolveInstanceComponent(receiver: Node): string | null {
+        if (!Node.isPropertyAccessExpression(receiver)) return null;
+        const target = this.skipOuterExpressions(receiver.getExpression());
+        if (receiver.getName() === 'vm') return this.resolveWrapperComponent(target);
+        if (receiver.getName() === 'value' && Node.isIdentifier(target)) return this.resolveTemplateRefComponent(target);
+        return null;
+    }
+
+    /**
+     * 获取 wrapper 挂载的组件，wrapper 可以是 mount/shallowMount 或 findComponent/getComponent 的调用结果，
+     * 也可以是保存调用结果的变量，变量可能在 beforeEach 等其他位置赋值
+     */
+    private resolveWrapperComponent(wrapper: Node, depth = 0): string | null {
+        if (depth > 3) return null;
+        if (Node.isCallExpression(wrapper)) {
+            const expression = wrapper.getExpression();
+            const calleeName = Node.isPropertyAccessExpression(expression) ? expression.getName() : expression.getText();
+            const [componentArg] = wrapper.getArguments();
+            if (!componentArg) return null;
+            if (mountFunctionNames.includes(calleeName) || findComponentNames.includes(calleeName)) {
+                return this.resolveImportedComponent(componentArg);
+            }
+            return null;
+        }
+        if (!Node.isIdentifier(wrapper)) return null;
+        for (const value of this.getAssignedValues(wrapper)) {
+            const componentFile = this.resolveWrapperComponent(this.skipOuterExpressions(value), depth + 1);
+            if (componentFile) return componentFile;
+        }
+        return null;
+    }
+
+    // 变量声明时的初始值以及文件中对该变量的赋值
+    private getAssignedValues(identifier: Identifier): Node[] {
+        const symbol = identifier.getSymbol();
+        if (!symbol) return [];
+        const values: Node[] = [];
+        for (const declaration of symbol.getDeclarations()) {
+            const initializer = Node.isVariableDeclaration(declaration) ? declaration.getInitializer() : undefined;
+            if (initializer) values.push(initializer);
+        }
+        for (const binary of this.sourceFile.getDescendantsOfKind(SyntaxKind.BinaryExpression)) {
+            const left = binary.getLeft();
+            if (binary.getOperatorToken().getKind() === SyntaxKind.EqualsToken && Node.isIdentifier(left) && left.getSymbol() === symbol) {
+                values.push(binary.getRight());
+            }
+        }
+        return values;
+    }
+
+    /**
+     * 获取模板 ref 绑定的组件，查找 JSX 中 ref={btnRef} 的组件标签，
+     * 或者 ref<InstanceType<typeof Button>>() 类型参数中的组件
+     */
+    private resolveTemplateRefComponent(identifier: Identifier): string | null {
+        const symbol = identifier.getSymbol();
+        if (!symbol) return null;
+        for (const attr of this.sourceFile.getDescendantsOfKind(SyntaxKind.JsxAttribute)) {
+            if (attr.getNameNode().getText() !== 'ref') continue;
+            const initializer = attr.getInitializer();
+            const expression = initializer && Node.isJsxExpression(initializer) ? initializer.getExpression() : undefined;
+            if (!expression || !Node.isIdentifier(expression) || expression.getSymbol() !== symbol) continue;
+            const element = attr.getParentOrThrow().getParentOrThrow();
+            if (Node.isJsxOpeningElement(element) || Node.isJsxSelfClosingElement(element)) {
+                const componentFile = this.resolveImportedComponent(element.getTagNameNode());
+                if (componentFile) return componentFile;
+            }
+        }
+        for (const value of this.getAssignedValues(identifier)) {
+            if (!Node.isCallExpression(value)) continue;
+            for (const typeArg of value.getTypeArguments()) {
+                const typeQueries = Node.isTypeQuery(typeArg) ? [typeArg] : typeArg.getDescendantsOfKind(SyntaxKind.TypeQuery);
+                for (const typeQuery of typeQueries) {
+                    const componentFile = this.resolveImportedComponent(typeQuery.getExprName());
+                    if (componentFile) return componentFile;
+                }
+            }
+        }
+        return null;
     }
 
     // 处理mount({ template: '...', components: { ... } })
@@ -195,6 +465,14 @@ class TestUnitAnalyzer {
         const templateInitializer = templateProperty.getInitializer();
         if (!templateInitializer || !(Node.isStringLiteral(templateInitializer) || Node.isNoSubstitutionTemplateLiteral(templateInitializer))) return;
         const templateContent = templateInitializer.getLiteralText();
+        // 模板 AST 中的偏移量相对于字符串内容，需要跳过开头的引号
+        const templateStart = templateInitializer.getStart() + 1;
+        let templateAst: RootNode;
+        try {
+            templateAst = parseTemplate(templateContent);
+        } catch (error) {
+            return;
+        }
 
         const componentsProperty = optionsNode.getProperty('components');
         if (!componentsProperty || !Node.isPropertyAssignment(componentsProperty)) return;
@@ -202,20 +480,21 @@ class TestUnitAnalyzer {
         if (!componentsInitializer) return;
         for (const componentProp of componentsInitializer.getProperties()) {
             if (Node.isPropertyAssignment(componentProp) || Node.isShorthandPropertyAssignment(componentProp)) {
-                const localComponentName = componentProp.getName();
-                const importDecl = this.getImportDecl(localComponentName, this.sourceFile);
-                const componentArgNode = componentProp.getInitializerIfKind(SyntaxKind.Identifier);
-                const importSymbol = this.getResolvedDeclarationSymbol(componentProp.getNameNode() as Identifier);
+                const localComponentName = componentProp.getName().replace(/[\'\"\`]/g, '');
+                const componentArgNode = Node.isPropertyAssignment(componentProp) ? componentProp.getInitializerIfKind(SyntaxKind.Identifier) : undefined;
+                const importDecl = this.getImportDecl(componentArgNode?.getText() || localComponentName, this.sourceFile);
                 if (!importDecl) continue;
-                const modulePath = importDecl.getModuleSpecifier().getLiteralValue();
+                const importSymbol = componentArgNode ? undefined : this.getResolvedDeclarationSymbol(componentProp.getNameNode() as Identifier);
+                const modulePath = this.resolveModulePath(importDecl.getModuleSpecifier().getLiteralValue());
                 const resolvedComponentFile = this.resolveComponentPath(componentArgNode as Identifier, importSymbol) || modulePath;
                 if (!resolvedComponentFile) continue;
                 if (!this.result[resolvedComponentFile]) {
                     this.result[resolvedComponentFile] = {};    
                 }
-                this.extractPropsFromTemplate(templateContent, localComponentName, this.result[resolvedComponentFile]);
-                this.extractEmitsFromTemplate(templateContent, localComponentName, this.result[resolvedComponentFile]);
-                this.extractSlotsFromTemplate(templateContent, this.result[resolvedComponentFile]);
+                for (const element of this.findTemplateElements(templateAst.children, localComponentName)) {
+                    this.extractTemplateAttrs(element, resolvedComponentFile, templateStart);
+                    this.extractTemplateSlots(element, resolvedComponentFile, templateStart);
+                }
             }
         }
     }
@@ -253,242 +532,183 @@ class TestUnitAnalyzer {
 
     }
 
-    private extractPropsFromTemplate(template: string, componentTagName: string, componentTestUnit: TestUnit) {
-        // Simple regex to find attributes for a given component tag.
-        // This is a basic implementation and might need to be made more robust.
-        // Example: <Button prop1="value1" prop2 />
-        // It won't handle complex bindings like :prop or v-bind well.
-        const tagRegex = new RegExp(`<${componentTagName}(\\s+[^>]*?)?>`, 'ig'); // Case-insensitive, global. Made the attribute matching non-greedy.
-        let match;
-        const propsFound: string[] = [];
-
-        while ((match = tagRegex.exec(template)) !== null) {
-            const attrsString = match[1]; // Group 1 captures the attributes string
-            if (!attrsString) continue;
-
-            // Regex to find attribute names (e.g., prop1, prop2)
-            // Handles: prop="value", prop='value', prop, prop={expr}, prop-name, :prop-name
-            const attrRegex = /([@:a-zA-Z0-9_-]+)(?:=(?:"[^"]*"|'[^']*'|[^\s>]*))?/g;
-            let attrMatch;
-            while ((attrMatch = attrRegex.exec(attrsString)) !== null) {
-                let propName = attrMatch[1];
-                // Remove potential Vue binding prefixes like : or v-bind:
-                if (propName.startsWith(':')) {
-                    propName = propName.substring(1);
-                } else if (propName.startsWith('v-bind:')) {
-                    propName = propName.substring(7);
-                } else if (propName.startsWith('v-model:')) {
-                    propName = propName.substring(8);
-                } else if (propName === 'v-model') {
-                    propName = 'value'; // Or 'modelValue' depending on Vue 3 convention
-                }
-                // Exclude event handlers (onXxx or @xxx) as they are handled by emits
-                if (!((propName.startsWith('on') && propName.length > 2 && propName[2] === propName[2].toUpperCase()) || propName.startsWith('@'))) {
-                    propsFound.push(propName);
-                }
+    // 在模板 AST 中查找指定组件的所有标签，兼容 PascalCase 与 kebab-case 写法
+    private findTemplateElements(nodes: TemplateChildNode[], componentTagName: string): ElementNode[] {
+        const elements: ElementNode[] = [];
+        const normalize = (tag: string) => tag.replace(/-/g, '').toLowerCase();
+        for (const node of nodes) {
+            if (node.type !== NodeTypes.ELEMENT) continue;
+            if (normalize(node.tag) === normalize(componentTagName)) {
+                elements.push(node);
             }
+            elements.push(...this.findTemplateElements(node.children, componentTagName));
         }
-
-        if (propsFound.length > 0) {
-            componentTestUnit.props = componentTestUnit.props || [];
-            componentTestUnit.props = [...new Set([...componentTestUnit.props, ...propsFound])];
-        }
+        return elements;
     }
 
-    private extractEmitsFromTemplate(template: string, componentTagName: string, componentTestUnit: TestUnit) {
-        // Simple regex to find attributes for a given component tag.
-        // Example: <Button @click="handler" />
-        const tagRegex = new RegExp(`<${componentTagName}(\\s+[^>]*)?>`, 'ig');
-        let match;
-        const emitsFound: string[] = [];
-
-        while ((match = tagRegex.exec(template)) !== null) {
-            const attrsString = match[1]; // Group 1 captures the attributes string
-            if (!attrsString) continue;
-
-            // Regex to find attribute names starting with @ or v-on:
-            const attrRegex = /([@a-zA-Z0-9_:-]+)(?:=(?:\"[^\"]*\"|'[^']*'|[^\s>]*))?/g;
-            let attrMatch;
-            while ((attrMatch = attrRegex.exec(attrsString)) !== null) {
-                let emitName = attrMatch[1];
-                let isVModel = false;
-                if (emitName.startsWith('v-model:')) {
-                    emitName = `onUpdate:${emitName.substring(8)}`;
-                    isVModel = true;
-                } else if (emitName === 'v-model') {
-                    emitName = 'onUpdate:value'; // Or onUpdate:modelValue
-                    isVModel = true;
-                }
-
-                if (isVModel) {
-                    emitsFound.push(emitName);
-                } else if (emitName.startsWith('@')) {
-                    emitName = emitName.substring(1);
-                    emitsFound.push('on' + emitName.charAt(0).toUpperCase() + emitName.slice(1));
-                } else if (emitName.startsWith('v-on:')) {
-                    emitName = emitName.substring(5);
-                    emitsFound.push('on' + emitName.charAt(0).toUpperCase() + emitName.slice(1));
-                }
-            }
-        }
-
-        if (emitsFound.length > 0) {
-            componentTestUnit.emits = componentTestUnit.emits || [];
-            componentTestUnit.emits = [...new Set([...componentTestUnit.emits, ...emitsFound])];
+    private getStaticDirectiveArg(directive: DirectiveNode) {
+        const arg = directive.arg;
+        if (arg && arg.type === NodeTypes.SIMPLE_EXPRESSION && arg.isStatic) {
+            return arg.content;
         }
+        return undefined;
     }
 
-    private extractSlotsFromTemplate(template: string, componentTestUnit: TestUnit) {
-        const slotsFound: string[] = [];
-
-        // 1. Find all explicitly named slots first
-        const componentSlotRegex = /<[A-Za-z][A-Za-z0-9-]*[^>]*>.*?<template\s+#([a-zA-Z0-9_-]+)[^>]*>.*?<\/template>/gs;
-        let componentSlotMatch;
-        while ((componentSlotMatch = componentSlotRegex.exec(template)) !== null) {
-            const slotName = componentSlotMatch[1];
-            if (!slotsFound.includes(slotName)) {
-                slotsFound.push(slotName);
-            }
-        }
-
-        const hashSlotRegex = /<template\s+#([a-zA-Z0-9_-]+)[^>]*>/g;
-        let hashMatch;
-        while ((hashMatch = hashSlotRegex.exec(template)) !== null) {
-            const slotName = hashMatch[1];
-            if (!slotsFound.includes(slotName)) {
-                slotsFound.push(slotName);
-            }
-        }
-
-        const vSlotRegex = /<template\s+v-slot:([a-zA-Z0-9_-]+)[^>]*>/g;
-        let vSlotMatch;
-        while ((vSlotMatch = vSlotRegex.exec(template)) !== null) {
-            const slotName = vSlotMatch[1];
-            if (!slotsFound.includes(slotName)) {
-                slotsFound.push(slotName);
+    // 提取模板中组件标签上的属性、事件、v-model 以及 v-slot
+    private extractTemplateAttrs(element: ElementNode, componentFile: string, templateStart: number) {
+        for (const prop of element.props) {
+            const pos = templateStart + prop.loc.start.offset;
+            if (prop.type === NodeTypes.ATTRIBUTE) {
+                this.addApi(componentFile, 'props', camelize(prop.name), pos);
+                // 没有值的属性按布尔 prop 处理为 true
+                this.addPropValues(componentFile, camelize(prop.name), [prop.value ? prop.value.content : 'true']);
+                continue;
             }
-        }
-
-        // 2. Create a version of the template with all named slot <template> blocks removed.
-        let templateWithoutNamedSlotDeclarations = template;
-        slotsFound.forEach(slotName => {
-            const specificSlotBlockRegexText = `<template\\s+(?:#${slotName}|v-slot:${slotName})[^>]*>[\\s\\S]*?<\\/template>`;
-            const specificSlotBlockRegex = new RegExp(specificSlotBlockRegexText, 'g');
-            templateWithoutNamedSlotDeclarations = templateWithoutNamedSlotDeclarations.replace(specificSlotBlockRegex, '');
-        });
-
-        // 3. Check if the remaining template (inside the main component tags) has actual content for a default slot.
-        const mainComponentContentRegex = /<([A-Za-z][A-Za-z0-9-]+)[^>]*>([\s\S]*?)<\/\1>/i;
-        const mainComponentMatch = mainComponentContentRegex.exec(templateWithoutNamedSlotDeclarations);
-
-        let hasActualDefaultContent = false;
-        if (mainComponentMatch && mainComponentMatch[2] !== undefined) {
-            let innerContent = mainComponentMatch[2];
-            innerContent = innerContent.replace(/<!--[\s\S]*?-->/g, '');
-            innerContent = innerContent.trim();
-            if (innerContent !== '') {
-                hasActualDefaultContent = true;
+            const arg = this.getStaticDirectiveArg(prop);
+            switch (prop.name) {
+                case 'bind':
+                    // v-bind="obj" 无法静态分析
+                    if (arg) {
+                        this.addApi(componentFile, 'props', camelize(arg), pos);
+                        const value = prop.exp?.type === NodeTypes.SIMPLE_EXPRESSION ? parseTemplateLiteral(prop.exp.content) : undefined;
+                        if (value !== undefined) this.addPropValues(componentFile, camelize(arg), [value]);
+                    }
+                    break;
+                case 'on':
+                    if (arg) this.addApi(componentFile, 'emits', toEventName(camelize(arg)), pos);
+                    break;
+                case 'model': {
+                    // 模板中无参数的 v-model 按 Vue 3 约定编译为 modelValue / onUpdate:modelValue
+                    const modelName = arg ? camelize(arg) : 'modelValue';
+                    this.addApi(componentFile, 'props', modelName, pos);
+                    this.addApi(componentFile, 'emits', `onUpdate:${modelName}`, pos);
+                    break;
+                }
+                case 'slot':
+                    this.addApi(componentFile, 'slots', arg || 'default', pos);
+                    this.addSlotParams(componentFile, arg || 'default', this.getTemplateSlotParams(prop, element));
+                    break;
             }
         }
+    }
 
-        if (hasActualDefaultContent) {
-            if (!slotsFound.includes('default')) {
-                slotsFound.push('default');
+    // 提取组件标签子节点中的插槽，<template #name> 为具名插槽，其余非空内容视为默认插槽
+    private extractTemplateSlots(element: ElementNode, componentFile: string, templateStart: number) {
+        // 组件自身使用 v-slot 时，子节点属于该插槽
+        if (this.findSlotDirective(element)) return;
+        let defaultContent: TemplateChildNode | undefined;
+
+        for (const child of element.children) {
+            if (child.type === NodeTypes.COMMENT) continue;
+            if (child.type === NodeTypes.TEXT && child.content.trim() === '') continue;
+            if (child.type === NodeTypes.ELEMENT && child.tag === 'template') {
+                const slotDirective = this.findSlotDirective(child);
+                if (slotDirective) {
+                    const slotName = this.getStaticDirectiveArg(slotDirective) || 'default';
+                    this.addApi(componentFile, 'slots', slotName, templateStart + child.loc.start.offset);
+                    this.addSlotParams(componentFile, slotName, this.getTemplateSlotParams(slotDirective, child));
+                    continue;
+                }
             }
+            defaultContent ||= child;
         }
 
-        // 4. Add all found slots to the componentTestUnit
-        if (slotsFound.length > 0) {
-            componentTestUnit.slots = componentTestUnit.slots || [];
-            componentTestUnit.slots = [...new Set([...componentTestUnit.slots, ...slotsFound])];
+        if (defaultContent) {
+            this.addApi(componentFile, 'slots', 'default', templateStart + defaultContent.loc.start.offset);
         }
+    }
 
+    private findSlotDirective(element: ElementNode) {
+        return element.props.find((prop): prop is DirectiveNode => prop.type === NodeTypes.DIRECTIVE && prop.name === 'slot');
     }
 
-    private extractProps(options: ObjectLiteralExpression, component: TestUnit) {
+    private extractProps(options: ObjectLiteralExpression, componentFile: string) {
         const propsProperty = options.getProperty('props');
         if (propsProperty && Node.isPropertyAssignment(propsProperty)) {
             const initializer = propsProperty.getInitializer();
             if (initializer && Node.isObjectLiteralExpression(initializer)) {
-                const props = initializer.getProperties()
-                    .map(propNode => {
-                        let propName: string | undefined;
-                        if (Node.isPropertyAssignment(propNode)) {
-                            const nameNode = propNode.getNameNode();
-                            if (Node.isStringLiteral(nameNode)) {
-                                propName = nameNode.getLiteralValue();
-                            } else {
-                                propName = propNode.getName();
-                            }
-                        } else if (Node.isShorthandPropertyAssignment(propNode)) {
-                            propName = propNode.getName();
-                        }
-
-                        // Exclude onXxx event handlers from props list
-                        if (propName && !(propName.startsWith('on') && propName.length > 2 && propName[2] === propName[2].toUpperCase())) {
-                            return propName;
-                        }
-                        return null;
-                    })
-                    .filter(Boolean) as string[];
-
-                if (props.length > 0) {
-                    component.props = component.props || [];
-                    component.props = [...new Set([...component.props, ...props])];
+                for (const propNode of initializer.getProperties()) {
+                    const propName = this.getOptionPropName(propNode);
+                    // Exclude onXxx event handlers from props list
+                    if (propName && !this.isEventHandlerName(propName)) {
+                        this.addApi(componentFile, 'props', propName, propNode.getStart());
+                        this.addPropValues(componentFile, propName, this.getOptionPropValues(propNode));
+                    }
                 }
             }
         }
     }
 
-    private extractEmits(options: ObjectLiteralExpression, component: TestUnit) {
+    private extractEmits(options: ObjectLiteralExpression, componentFile: string) {
         const propsProperty = options.getProperty('props'); // Emits are derived from onXxx props
         if (propsProperty && Node.isPropertyAssignment(propsProperty)) {
             const initializer = propsProperty.getInitializer();
             if (initializer && Node.isObjectLiteralExpression(initializer)) {
-                const emits = initializer.getProperties()
-                    .map(propNode => {
-                        let propName: string | undefined;
-                        if (Node.isPropertyAssignment(propNode)) {
-                            const nameNode = propNode.getNameNode();
-                            if (Node.isStringLiteral(nameNode)) {
-                                propName = nameNode.getLiteralValue();
-                            } else {
-                                propName = propNode.getName();
-                            }
-                        } else if (Node.isShorthandPropertyAssignment(propNode)) {
-                            propName = propNode.getName();
-                        }
-
-                        // Emits are onXxx event handlers
-                        if (propName && propName.startsWith('on') && propName.length > 2 && propName[2] === propName[2].toUpperCase()) {
-                            return propName;
-                        }
-                        return null;
-                    })
-                    .filter(Boolean) as string[];
-
-                if (emits.length > 0) {
-                    component.emits = component.emits || [];
-                    component.emits = [...new Set([...component.emits, ...emits])];
+                for (const propNode of initializer.getProperties()) {
+                    const propName = this.getOptionPropName(propNode);
+                    // Emits are onXxx event handlers
+                    if (propName && this.isEventHandlerName(propName)) {
+                        this.addApi(componentFile, 'emits', propName, propNode.getStart());
+                    }
                 }
             }
         }
     }
 
-    private extractSlots(options: ObjectLiteralExpression, component: TestUnit) {
+    private getOptionPropName(propNode: Node) {
+        if (Node.isPropertyAssignment(propNode)) {
+            const nameNode = propNode.getNameNode();
+            if (Node.isStringLiteral(nameNode)) {
+                return nameNode.getLiteralValue();
+            }
+            return propNode.getName();
+        }
+        if (Node.isShorthandPropertyAssignment(propNode)) {
+            return propNode.getName();
+        }
+        return undefined;
+    }
+
+    private getOptionPropValues(propNode: Node): string[] | undefined {
+        if (!this.propValues) return;
+        if (Node.isPropertyAssignment(propNode)) {
+            const initializer = propNode.getInitializer();
+            return initializer && getLiteralValues(initializer.getType());
+        }
+        if (Node.isShorthandPropertyAssignment(propNode)) {
+            const valueSymbol = propNode.getValueSymbol();
+            return valueSymbol && getLiteralValues(valueSymbol.getTypeAtLocation(propNode));
+        }
+        return;
+    }
+
+    // JSX 属性的字面量取值，没有值的属性等同于传入 true
+    private getJSXAttrValues(attr: JsxAttribute): string[] | undefined {
+        if (!this.propValues) return;
+        const initializer = attr.getInitializer();
+        if (!initializer) return ['true'];
+        if (Node.isStringLiteral(initializer)) return [initializer.getLiteralValue()];
+        if (Node.isJsxExpression(initializer)) {
+            const expression = initializer.getExpression();
+            return expression && getLiteralValues(expression.getType());
+        }
+        return;
+    }
+
+    private isEventHandlerName(propName: string) {
+        return propName.startsWith('on') && propName.length > 2 && propName[2] === propName[2].toUpperCase();
+    }
+
+    private extractSlots(options: ObjectLiteralExpression, componentFile: string) {
         const slotsProperty = options.getProperty('slots');
 
         if (slotsProperty && Node.isPropertyAssignment(slotsProperty)) {
             const initializer = slotsProperty.getInitializer();
 
             if (initializer && Node.isObjectLiteralExpression(initializer)) {
-                const slots = initializer.getProperties()
-                    .filter(Node.isPropertyAssignment)
-                    .map(prop => prop.getName());
-
-                if (slots.length > 0) {
-                    component.slots = component.slots || [];
-                    component.slots = [...new Set([...component.slots, ...slots])];
+                for (const prop of initializer.getProperties().filter(Node.isPropertyAssignment)) {
+                    this.addApi(componentFile, 'slots', prop.getName(), prop.getStart());
+                    this.addSlotParams(componentFile, prop.getName(), this.getSlotFunctionParams(prop));
                 }
             }
         }
@@ -528,7 +748,7 @@ class TestUnitAnalyzer {
             // Find the corresponding import declaration
             const importDecl = this.getImportDecl(tagName, this.sourceFile);
             if (!importDecl) continue;
-            const modulePath = importDecl.getModuleSpecifier().getLiteralValue();
+            const modulePath = this.resolveModulePath(importDecl.getModuleSpecifier().getLiteralValue());
             const filePath = this.resolveComponentPath(openingElement.getTagNameNode() as Identifier) || modulePath;
             if (!filePath) continue;
 
@@ -538,17 +758,17 @@ class TestUnitAnalyzer {
             }
 
             // Extract props from JSX attributes
-            this.extractJSXAttrs(openingElement, this.result[filePath]);
+            this.extractJSXAttrs(openingElement, filePath);
 
             // Extract slots from JSX children if it's a JSX element (not self-closing)
             if (Node.isJsxElement(jsxElement)) {
-                this.extractJSXSlots(jsxElement, this.result[filePath]);
+                this.extractJSXSlots(jsxElement, filePath);
             }
         }
     }
 
     // Helper method to extract attributes from JSX elements
-    private extractJSXAttrs(element: Node, component: TestUnit) {
+    private extractJSXAttrs(element: Node, componentFile: string) {
         if (Node.isJsxOpeningElement(element) || Node.isJsxSelfClosingElement(element)) {
             const attributes = element.getAttributes();
 
@@ -556,29 +776,25 @@ class TestUnitAnalyzer {
                 if (Node.isJsxAttribute(attr)) {
                     let propName = attr.getNameNode().getText();
                     let originalPropName = propName; // Keep original for emit generation
+                    const pos = attr.getStart();
 
                     // Handle event handlers (props starting with "on")
                     if (propName.startsWith('on') && propName.length > 2) {
                         // Add to emits list
-                        if (!component.emits) {
-                            component.emits = [];
-                        }
-
-                        if (!component.emits.includes(propName)) {
-                            component.emits.push(propName);
-                        }
+                        this.addApi(componentFile, 'emits', propName, pos);
                     } else if (propName === 'v-slots') {
                         // Handle v-slots directive
                         const initializer = attr.getInitializer();
                         if (initializer && Node.isJsxExpression(initializer)) {
                             const expression = initializer.getExpression();
                             if (expression && Node.isObjectLiteralExpression(expression)) {
-                                component.slots = component.slots || [];
+                                this.result[componentFile].slots ||= [];
                                 expression.getProperties().forEach(prop => {
                                     if (Node.isPropertyAssignment(prop) || Node.isShorthandPropertyAssignment(prop)) {
                                         const slotName = prop.getName();
-                                        if (slotName && !component.slots!.includes(slotName)) {
-                                            component.slots!.push(slotName);
+                                        if (slotName) {
+                                            this.addApi(componentFile, 'slots', slotName, prop.getStart());
+                                            this.addSlotParams(componentFile, slotName, this.getSlotFunctionParams(prop));
                                         }
                                     }
                                 });
@@ -591,31 +807,27 @@ class TestUnitAnalyzer {
                             propName = propName.substring(8);
                             isVModel = true;
                         } else if (propName === 'v-model') {
-                            propName = 'value'; // Or 'modelValue' depending on Vue 3 convention
+                            // Same as templates, v-model without argument maps to modelValue
+                            propName = 'modelValue';
                             isVModel = true;
                         }
 
                         // Add regular prop to the result
-                        if (!component.props) {
-                            component.props = [];
-                        }
-                        if (!component.props.includes(propName)) {
-                            component.props.push(propName);
+                        this.addApi(componentFile, 'props', propName, pos);
+                        if (!isVModel) {
+                            this.addPropValues(componentFile, propName, this.getJSXAttrValues(attr));
                         }
 
                         // If it was a v-model, also add the corresponding emit
                         if (isVModel) {
-                            if (!component.emits) {
-                                component.emits = [];
-                            }
                             let emitName = '';
                             if (originalPropName === 'v-model') {
-                                emitName = 'onUpdate:value'; // or onUpdate:modelValue
+                                emitName = 'onUpdate:modelValue';
                             } else if (originalPropName.startsWith('v-model:')) {
                                 emitName = `onUpdate:${originalPropName.substring(8)}`;
                             }
-                            if (emitName && !component.emits.includes(emitName)) {
-                                component.emits.push(emitName);
+                            if (emitName) {
+                                this.addApi(componentFile, 'emits', emitName, pos);
                             }
                         }
                     }
@@ -625,18 +837,18 @@ class TestUnitAnalyzer {
     }
 
     // Helper method to extract slots from JSX elements
-    private extractJSXSlots(element: Node, component: TestUnit) {
+    private extractJSXSlots(element: Node, componentFile: string) {
         if (Node.isJsxElement(element)) {
-            let hasPotentialDefaultSlotContent = false;
+            let defaultSlotContent: Node | undefined;
             const children = element.getJsxChildren();
 
             for (const child of children) {
                 if (Node.isJsxText(child) && child.getText().trim() !== '') { // Non-empty text node
-                    hasPotentialDefaultSlotContent = true;
+                    defaultSlotContent = child;
                     break;
                 }
                 if (Node.isJsxElement(child)) { // Direct JSX element child
-                    hasPotentialDefaultSlotContent = true;
+                    defaultSlotContent = child;
                     break;
                 }
                 if (Node.isJsxExpression(child)) {
@@ -644,16 +856,21 @@ class TestUnitAnalyzer {
                     // If the JsxExpression is not an ObjectLiteral (which is used for named slots)
                     // it could be default slot content e.g. <Button>{() => <div/>}</Button> or <Button>{someVariable}</Button>
                     if (expression && !Node.isObjectLiteralExpression(expression)) {
-                        hasPotentialDefaultSlotContent = true;
+                        defaultSlotContent = child;
                         break;
                     }
                 }
             }
 
-            if (hasPotentialDefaultSlotContent) {
-                component.slots = component.slots || [];
-                if (!component.slots.includes('default')) {
-                    component.slots.push('default');
+            if (defaultSlotContent) {
+                // JsxText 的起始位置包含前导空白，使用非空白内容的位置
+                const pos = Node.isJsxText(defaultSlotContent)
+                    ? defaultSlotContent.getStart() + defaultSlotContent.getText().search(/\S/)
+                    : defaultSlotContent.getStart();
+                this.addApi(componentFile, 'slots', 'default', pos);
+                // <Comp>{(scope) => ...}</Comp> 形式的默认作用域插槽
+                if (Node.isJsxExpression(defaultSlotContent)) {
+                    this.addSlotParams(componentFile, 'default', this.getSlotFunctionParams(defaultSlotContent.getExpression()));
                 }
             }
 
@@ -668,10 +885,8 @@ class TestUnitAnalyzer {
                         if (Node.isPropertyAssignment(prop) || Node.isShorthandPropertyAssignment(prop)) {
                             const slotName = prop.getName();
                             if (slotName) {
-                                component.slots = component.slots || [];
-                                if (!component.slots.includes(slotName)) {
-                                    component.slots.push(slotName);
-                                }
+                                this.addApi(componentFile, 'slots', slotName, prop.getStart());
+                                this.addSlotParams(componentFile, slotName, this.getSlotFunctionParams(prop));
                             }
                         }
                     }
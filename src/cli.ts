@@ -0,0 +1,6 @@
+import { main } from './main';
+
+main(process.argv.slice(2)).catch((error) => {
+  console.error('[vc-api-coverage] Analysis failed:', error);
+  process.exitCode = 1;
+});
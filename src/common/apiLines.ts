@@ -0,0 +1,51 @@
+import type { VcCoverageData } from '../types';
+import { categories } from './utils';
+
+export interface ApiLineEntry {
+  // 形如 props.size 的 API 名称
+  name: string
+  line: number
+  covered: boolean
+}
+
+export interface ApiFileRecord {
+  file: string
+  apis: ApiLineEntry[]
+  lines: Array<{ line: number, covered: boolean }>
+}
+
+/**
+ * 将 API 覆盖数据按声明所在文件整理为行覆盖记录，供 lcov、cobertura 等格式使用
+ * 没有声明位置的 API 记录在组件文件第一行；同一行或同一 API 只要有一处未覆盖即视为未覆盖
+ */
+export function getApiFileRecords(allCoverageData: VcCoverageData[]): ApiFileRecord[] {
+  const records = new Map<string, Map<string, ApiLineEntry>>();
+
+  for (const item of allCoverageData) {
+    for (const category of categories) {
+      for (const detail of item[category].details) {
+        const file = detail.location?.file || item.file;
+        const line = detail.location?.line || 1;
+        const name = `${category}.${detail.name}`;
+        if (!records.has(file)) records.set(file, new Map());
+        const apis = records.get(file)!;
+        const key = `${name}:${line}`;
+        const existing = apis.get(key);
+        apis.set(key, { name, line, covered: detail.covered && (existing?.covered ?? true) });
+      }
+    }
+  }
+
+  return Array.from(records.keys()).sort().map(file => {
+    const apis = Array.from(records.get(file)!.values()).sort((a, b) => a.line - b.line || a.name.localeCompare(b.name));
+    const lines = new Map<number, boolean>();
+    for (const api of apis) {
+      lines.set(api.line, api.covered && (lines.get(api.line) ?? true));
+    }
+    return {
+      file,
+      apis,
+      lines: Array.from(lines.entries()).map(([line, covered]) => ({ line, covered })),
+    };
+  });
+}
@@ -0,0 +1,63 @@
+import fs from 'fs';
+import path from 'path';
+import type { VcApiChange, VcBaselineDiff, VcCoverageData } from '../types';
+import { categories } from './utils';
+
+/**
+ * 读取 JSONReporter 生成的 coverage.json，用作基线或合并分片结果
+ */
+export function readCoverageReport(file: string): VcCoverageData[] {
+  const content = JSON.parse(fs.readFileSync(path.resolve(process.cwd(), file), 'utf-8'));
+  if (!content || !Array.isArray(content.components)) {
+    throw new Error(`${file} is not a coverage.json generated by vc-api-coverage`);
+  }
+  return content.components;
+}
+
+function getApiCoverage(allCoverageData: VcCoverageData[]) {
+  const apis = new Map<string, VcApiChange & { covered: boolean }>();
+  for (const item of allCoverageData) {
+    // 组件名称只包含路径的最后两段，不同目录下的同名文件需要按相对路径区分
+    const file = path.relative(process.cwd(), item.file);
+    for (const category of categories) {
+      for (const detail of item[category]?.details || []) {
+        apis.set(`${file}\0${category}\0${detail.name}`, { component: item.name, category, name: detail.name, covered: detail.covered });
+      }
+    }
+  }
+  return apis;
+}
+
+/**
+ * 对比当前与基线的 API 覆盖情况，组件按相对于项目根目录的路径匹配
+ */
+export function compareWithBaseline(current: VcCoverageData[], baseline: VcCoverageData[]): VcBaselineDiff {
+  const currentApis = getApiCoverage(current);
+  const baselineApis = getApiCoverage(baseline);
+  const diff: VcBaselineDiff = { regressions: [], newUncovered: [], removed: [] };
+
+  for (const [key, { covered, ...api }] of currentApis) {
+    if (covered) continue;
+    const baselineApi = baselineApis.get(key);
+    if (!baselineApi) {
+      diff.newUncovered.push(api);
+    } else if (baselineApi.covered) {
+      diff.regressions.push(api);
+    }
+  }
+  for (const [key, { component, category, name }] of baselineApis) {
+    if (!currentApis.has(key)) {
+      diff.removed.push({ component, category, name });
+    }
+  }
+  return diff;
+}
+
+export function formatBaselineDiff(diff: VcBaselineDiff): string {
+  const formatApis = (apis: VcApiChange[]) => apis.map(api => `  ${api.component} ${api.category}: ${api.name}`);
+  const lines = [`Compared with baseline: ${diff.regressions.length} regressed, ${diff.newUncovered.length} new without tests, ${diff.removed.length} removed`];
+  if (diff.regressions.length > 0) lines.push('Covered in baseline but no longer covered:', ...formatApis(diff.regressions));
+  if (diff.newUncovered.length > 0) lines.push('New APIs without tests:', ...formatApis(diff.newUncovered));
+  if (diff.removed.length > 0) lines.push('Removed APIs:', ...formatApis(diff.removed));
+  return lines.join('\n');
+}
@@ -0,0 +1,44 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import type { SourceFile } from 'ts-morph';
+import { logError } from './utils';
+
+// 分析结果的结构或分析逻辑发生变化时递增，使旧的缓存失效
+const CACHE_VERSION = 5;
+
+export const DEFAULT_CACHE_DIR = 'node_modules/.cache/vc-api-coverage';
+
+/**
+ * 根据入口文件及其依赖的路径与内容以及编译选项计算缓存键，其中任一项变化都会得到新的键
+ */
+export function getCacheKey(kind: string, files: SourceFile[], compilerOptions: object = {}): string {
+  const hash = createHash('sha1').update(`${CACHE_VERSION}\0${kind}\0${JSON.stringify(compilerOptions)}`);
+  for (const file of files) {
+    hash.update(`\0${file.getFilePath()}\0`).update(file.getFullText());
+  }
+  return hash.digest('hex');
+}
+
+export function readCache<T>(cacheDir: string, key: string): T | undefined {
+  const cachePath = path.resolve(process.cwd(), cacheDir, `${key}.json`);
+  if (!fs.existsSync(cachePath)) return;
+  try {
+    return JSON.parse(fs.readFileSync(cachePath, 'utf-8'));
+  } catch (error) {
+    // 损坏的缓存直接忽略，重新分析后会被覆盖
+    return;
+  }
+}
+
+export function writeCache(cacheDir: string, key: string, value: unknown) {
+  const dir = path.resolve(process.cwd(), cacheDir);
+  try {
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    fs.writeFileSync(path.join(dir, `${key}.json`), JSON.stringify(value));
+  } catch (error) {
+    logError('vc-api-coverage', `Failed to write analysis cache to ${dir}:`, error);
+  }
+}
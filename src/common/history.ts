@@ -0,0 +1,56 @@
+import fs from 'fs';
+import path from 'path';
+import type { VcCoverageData, VcHistoryEntry } from '../types';
+import { categories, getTotalData, logError } from './utils';
+
+export const HISTORY_FILE = 'api-history.json';
+
+/**
+ * 生成本次运行的覆盖率汇总记录
+ */
+export function createHistoryEntry(allCoverageData: VcCoverageData[], timestamp = new Date()): VcHistoryEntry {
+  const totalData = getTotalData(allCoverageData);
+  const components: VcHistoryEntry['components'] = {};
+  for (const item of allCoverageData) {
+    const counts = categories.map(category => item[category]);
+    // 组件名称只包含路径的最后两段，按相对路径记录以区分不同目录下的同名文件
+    components[path.relative(process.cwd(), item.file)] = {
+      total: counts.reduce((sum, count) => sum + count.total, 0),
+      covered: counts.reduce((sum, count) => sum + count.covered, 0),
+    };
+  }
+  return {
+    timestamp: timestamp.toISOString(),
+    total: {
+      total: categories.reduce((sum, category) => sum + totalData[category].total, 0),
+      covered: categories.reduce((sum, category) => sum + totalData[category].covered, 0),
+    },
+    categories: totalData,
+    components,
+  };
+}
+
+export function readHistory(outputDir: string): VcHistoryEntry[] {
+  const historyPath = path.resolve(process.cwd(), outputDir, HISTORY_FILE);
+  if (!fs.existsSync(historyPath)) return [];
+  try {
+    const history = JSON.parse(fs.readFileSync(historyPath, 'utf-8'));
+    return Array.isArray(history) ? history : [];
+  } catch (error) {
+    logError('vc-api-coverage', `Failed to read ${historyPath}, history will be restarted`);
+    return [];
+  }
+}
+
+/**
+ * 追加本次运行记录并写回历史文件，只保留最近 maxEntries 条，返回更新后的历史
+ */
+export function appendHistory(outputDir: string, entry: VcHistoryEntry, maxEntries: number): VcHistoryEntry[] {
+  const history = [...readHistory(outputDir), entry].slice(-maxEntries);
+  const reportDir = path.resolve(process.cwd(), outputDir);
+  if (!fs.existsSync(reportDir)) {
+    fs.mkdirSync(reportDir, { recursive: true });
+  }
+  fs.writeFileSync(path.join(reportDir, HISTORY_FILE), JSON.stringify(history, null, 2));
+  return history;
+}
@@ -0,0 +1,38 @@
+import path from 'path';
+import micromatch from 'micromatch';
+import type { VcCoverageCategory, VcData, VcIgnoreOptions, VcIgnorePattern } from '../types';
+import { categories } from './utils';
+
+function isMatch(name: string, patterns: VcIgnorePattern[]) {
+  return patterns.some(pattern => typeof pattern === 'string' ? pattern === name : name.match(pattern) !== null);
+}
+
+/**
+ * 获取组件文件在某个类别下需要忽略的 API，全局设置与匹配的组件 glob 设置合并
+ */
+export function getIgnorePatterns(filePath: string, category: VcCoverageCategory, ignore: VcIgnoreOptions = {}): VcIgnorePattern[] {
+  const { components = {} } = ignore;
+  const patterns = [...ignore[category] || []];
+  const relativePath = path.relative(process.cwd(), filePath);
+  for (const pattern in components) {
+    if (!micromatch.isMatch(relativePath, pattern) && !micromatch.isMatch(filePath, pattern)) continue;
+    patterns.push(...components[pattern][category] || []);
+  }
+  return patterns;
+}
+
+/**
+ * 按 ignore 选项将组件 API 移入忽略列表
+ */
+export function applyIgnoreOptions(filePath: string, data: VcData, ignored: VcData, ignore?: VcIgnoreOptions): { data: VcData, ignored: VcData } {
+  const res = { data: { ...data }, ignored: { ...ignored } };
+  if (!ignore) return res;
+  for (const category of categories) {
+    const patterns = getIgnorePatterns(filePath, category, ignore);
+    if (patterns.length === 0) continue;
+    const matched = data[category].filter(name => isMatch(name, patterns));
+    res.data[category] = data[category].filter(name => !matched.includes(name));
+    res.ignored[category] = [...ignored[category], ...matched];
+  }
+  return res;
+}
@@ -0,0 +1,82 @@
+import _ from 'lodash';
+import type { VcCoverageData, VcCoverageDetail } from '../types';
+import { categories } from './utils';
+
+// 合并 prop 取值或插槽参数的覆盖情况，任一分片覆盖即视为已覆盖
+function mergeCoveredItems<T extends { covered: boolean }>(target: T[] | undefined, source: T[] | undefined, getKey: (item: T) => string): T[] | undefined {
+  if (!target && !source) return;
+  const items = [...target || [], ...source || []];
+  return _.uniqBy(items, getKey).map(item => ({
+    ...item,
+    covered: items.some(other => getKey(other) === getKey(item) && other.covered),
+  }));
+}
+
+function mergeDetail(target: VcCoverageDetail, source: VcCoverageDetail): VcCoverageDetail {
+  const sources = _.union(target.sources || [], source.sources || []);
+  const tests = _.uniqBy([...(target.tests || []), ...(source.tests || [])], test => `${test.file}:${test.line}:${test.column}`);
+  const location = target.location || source.location;
+  const values = mergeCoveredItems(target.values, source.values, value => value.value);
+  const params = mergeCoveredItems(target.params, source.params, param => param.name);
+  return {
+    name: target.name,
+    covered: target.covered || source.covered,
+    ...(target.sources || source.sources ? { sources } : {}),
+    ...(location ? { location } : {}),
+    ...(tests.length > 0 ? { tests } : {}),
+    ...(target.deprecated || source.deprecated ? { deprecated: true } : {}),
+    ...(values ? { values } : {}),
+    ...(params ? { params } : {}),
+  };
+}
+
+function mergeDetails(details: VcCoverageDetail[], sourceDetails: VcCoverageDetail[]) {
+  for (const detail of sourceDetails) {
+    const index = details.findIndex(d => d.name === detail.name);
+    if (index === -1) {
+      details.push(_.cloneDeep(detail));
+    } else {
+      details[index] = mergeDetail(details[index], detail);
+    }
+  }
+}
+
+/**
+ * 合并多份覆盖率数据，例如 vitest --shard 各分片生成的 coverage.json
+ * 组件按文件匹配，同名 API 任一分片覆盖即视为已覆盖，并重新计算各项统计
+ */
+export function mergeCoverageData(reports: VcCoverageData[][]): VcCoverageData[] {
+  const components = new Map<string, VcCoverageData>();
+  for (const report of reports) {
+    for (const item of report) {
+      const merged = components.get(item.file);
+      if (!merged) {
+        components.set(item.file, _.cloneDeep(item));
+        continue;
+      }
+      for (const category of categories) {
+        mergeDetails(merged[category].details, item[category]?.details || []);
+        if (item[category]?.deprecated) {
+          merged[category].deprecated = merged[category].deprecated || [];
+          mergeDetails(merged[category].deprecated!, item[category].deprecated!);
+        }
+        const ignored = _.uniqBy([...merged[category].ignored || [], ...item[category]?.ignored || []], detail => detail.name);
+        if (ignored.length > 0) {
+          merged[category].ignored = ignored;
+        }
+      }
+    }
+  }
+
+  const res = Array.from(components.values());
+  for (const item of res) {
+    for (const category of categories) {
+      item[category].total = item[category].details.length;
+      item[category].covered = item[category].details.filter(d => d.covered).length;
+    }
+    item.total = _.sumBy(categories, category => item[category].total);
+    item.covered = _.sumBy(categories, category => item[category].covered);
+  }
+  res.sort((a, b) => a.name.localeCompare(b.name));
+  return res;
+}
@@ -0,0 +1,51 @@
+import path from 'path';
+import micromatch from 'micromatch';
+import type { VcCoverageCategory, VcCoverageData, VcCoverageThresholds, VcThresholdValues, VcThresholdViolation } from '../types';
+import { categories, getTotalData, toPercentage } from './utils';
+
+type CoverageCounts = Record<VcCoverageCategory, { total: number, covered: number }>
+
+function checkValues(counts: CoverageCounts, values: VcThresholdValues, pattern: string, component?: string): VcThresholdViolation[] {
+  const violations: VcThresholdViolation[] = [];
+  const actuals: Record<VcCoverageCategory | 'total', number> = {
+    props: toPercentage(counts.props.covered, counts.props.total),
+    emits: toPercentage(counts.emits.covered, counts.emits.total),
+    slots: toPercentage(counts.slots.covered, counts.slots.total),
+    exposes: toPercentage(counts.exposes.covered, counts.exposes.total),
+    total: toPercentage(
+      categories.reduce((sum, category) => sum + counts[category].covered, 0),
+      categories.reduce((sum, category) => sum + counts[category].total, 0),
+    ),
+  };
+  for (const category of [...categories, 'total'] as const) {
+    const expected = values[category];
+    if (expected === undefined) continue;
+    if (actuals[category] < expected) {
+      violations.push({ component, pattern, category, actual: actuals[category], expected });
+    }
+  }
+  return violations;
+}
+
+/**
+ * 检查覆盖率阈值
+ * 全局阈值针对所有组件的汇总数据，components 中的 glob 阈值针对每个匹配的组件单独检查
+ */
+export function checkThresholds(allCoverageData: VcCoverageData[], thresholds: VcCoverageThresholds): VcThresholdViolation[] {
+  const { components = {}, ...globalValues } = thresholds;
+  const violations = checkValues(getTotalData(allCoverageData), globalValues, 'global');
+
+  for (const item of allCoverageData) {
+    const relativePath = path.relative(process.cwd(), item.file);
+    for (const pattern in components) {
+      if (!micromatch.isMatch(relativePath, pattern) && !micromatch.isMatch(item.file, pattern)) continue;
+      violations.push(...checkValues(item, components[pattern], pattern, item.name));
+    }
+  }
+  return violations;
+}
+
+export function formatThresholdViolation(violation: VcThresholdViolation) {
+  const target = violation.component ? `${violation.component} (${violation.pattern})` : 'global';
+  return `${violation.category} coverage ${violation.actual.toFixed(2)}% does not meet ${target} threshold ${violation.expected}%`;
+}
@@ -0,0 +1,127 @@
+import fs from 'fs';
+import path from 'path';
+import { ts } from 'ts-morph';
+import { logError } from './utils';
+
+// 没有 tsconfig 时使用的编译选项
+export const defaultCompilerOptions: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ESNext,
+  module: ts.ModuleKind.ESNext,
+  jsx: ts.JsxEmit.Preserve,
+  moduleResolution: ts.ModuleResolutionKind.NodeNext,
+};
+
+export interface ViteAlias {
+  find: string | RegExp
+  replacement: string
+}
+
+/**
+ * 查找 cwd 及其上级目录中的 tsconfig.json
+ */
+export function findTsConfig(cwd = process.cwd()): string | undefined {
+  return ts.findConfigFile(cwd, ts.sys.fileExists);
+}
+
+function parseTsConfig(configPath: string): ts.ParsedCommandLine | undefined {
+  return ts.getParsedCommandLineOfConfigFile(configPath, {}, {
+    ...ts.sys,
+    onUnRecoverableConfigFileDiagnostic: (diagnostic) => {
+      logError('vc-api-coverage', `Failed to read ${configPath}:`, ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+    },
+  });
+}
+
+// 将 paths 的映射目标转换为绝对路径，使不同目录下的 tsconfig 可以合并
+function getAbsolutePaths(options: ts.CompilerOptions, configPath: string): ts.MapLike<string[]> {
+  const basePath = options.baseUrl || (options.pathsBasePath as string | undefined) || path.dirname(configPath);
+  return Object.fromEntries(Object.entries(options.paths || {}).map(([pattern, targets]) => [
+    pattern,
+    targets.map(target => path.resolve(basePath, target)),
+  ]));
+}
+
+function readTsConfig(configPath: string, visited: Set<string>): ts.CompilerOptions {
+  visited.add(configPath);
+  const parsed = parseTsConfig(configPath);
+  if (!parsed) return {};
+  let options: ts.CompilerOptions = { ...parsed.options, paths: getAbsolutePaths(parsed.options, configPath) };
+  // 被引用项目的选项合并进来，当前配置中的选项优先，paths 与 types 取并集
+  for (const reference of parsed.projectReferences || []) {
+    const referencePath = ts.resolveProjectReferencePath(reference);
+    if (visited.has(referencePath) || !fs.existsSync(referencePath)) continue;
+    const referenceOptions = readTsConfig(referencePath, visited);
+    options = {
+      ...referenceOptions,
+      ...options,
+      paths: { ...referenceOptions.paths, ...options.paths },
+      ...(options.types || referenceOptions.types ? { types: Array.from(new Set([...(options.types || []), ...(referenceOptions.types || [])])) } : {}),
+    };
+  }
+  return options;
+}
+
+/**
+ * 获取分析时使用的编译选项
+ * tsconfig 为 false 时使用默认选项，未指定时自动查找 cwd 中的 tsconfig.json
+ */
+export function getCompilerOptions(tsconfig?: string | false): ts.CompilerOptions {
+  const configPath = tsconfig === false ? undefined : tsconfig ? path.resolve(process.cwd(), tsconfig) : findTsConfig();
+  if (!configPath) return defaultCompilerOptions;
+  if (!fs.existsSync(configPath)) {
+    logError('vc-api-coverage', `tsconfig ${configPath} not found, using default compiler options`);
+    return defaultCompilerOptions;
+  }
+  const options = readTsConfig(configPath, new Set());
+  // 项目只用于类型分析，不需要 composite、incremental 等构建相关的选项
+  delete options.composite;
+  delete options.incremental;
+  delete options.tsBuildInfoFile;
+  const res = { ...defaultCompilerOptions, ...options };
+  // 未指定 moduleResolution 时 ES 模块会退化为 classic 解析，无法解析 node_modules
+  if (!options.moduleResolution) {
+    res.moduleResolution = res.module === ts.ModuleKind.CommonJS ? ts.ModuleResolutionKind.Node10 : ts.ModuleResolutionKind.Bundler;
+    if (res.module === ts.ModuleKind.NodeNext || res.module === ts.ModuleKind.Node16) {
+      res.moduleResolution = ts.ModuleResolutionKind.NodeNext;
+    }
+  }
+  return res;
+}
+
+/**
+ * 将 vite 的 resolve.alias 转换为 tsconfig 的 paths
+ * 只转换指向绝对路径的字符串别名，正则别名和指向包名的别名无法用 paths 表达
+ */
+export function aliasesToPaths(aliases: ViteAlias[] | Record<string, string>, root = process.cwd()): ts.MapLike<string[]> {
+  const entries = Array.isArray(aliases)
+    ? aliases.map(alias => [alias.find, alias.replacement] as const)
+    : Object.entries(aliases);
+  const paths: ts.MapLike<string[]> = {};
+  for (const [find, replacement] of entries) {
+    if (typeof find !== 'string' || typeof replacement !== 'string') continue;
+    if (!path.isAbsolute(replacement) && !replacement.startsWith('.')) continue;
+    const target = path.resolve(root, replacement).replace(/\/$/, '');
+    const pattern = find.replace(/\/$/, '');
+    paths[pattern] = [target];
+    paths[`${pattern}/*`] = [`${target}/*`];
+  }
+  return paths;
+}
+
+/**
+ * 按 paths 解析模块路径，用于 ts 无法解析的 .vue 模块
+ */
+export function resolvePathAlias(specifier: string, options: ts.CompilerOptions): string | undefined {
+  for (const [pattern, targets] of Object.entries(options.paths || {})) {
+    const [prefix, suffix = ''] = pattern.split('*');
+    const isWildcard = pattern.includes('*');
+    if (isWildcard ? !(specifier.startsWith(prefix) && specifier.endsWith(suffix) && specifier.length >= prefix.length + suffix.length) : specifier !== pattern) continue;
+    const matched = isWildcard ? specifier.slice(prefix.length, specifier.length - suffix.length) : '';
+    const basePath = options.baseUrl || (options.pathsBasePath as string | undefined) || process.cwd();
+    for (const target of targets) {
+      const candidate = path.resolve(basePath, target.replace('*', matched));
+      if (fs.existsSync(candidate)) return candidate;
+    }
+  }
+  return;
+}
@@ -1,8 +1,12 @@
 import chalk from 'chalk';
-import { VcCoverageData } from '../types';
+import { VcCoverageCategory, VcCoverageData, VcCoverageDetail } from '../types';
 import path from 'path';
 import fs from 'fs';
 import { Type } from 'ts-morph';
+import { parse as parseSfc } from '@vue/compiler-sfc';
+
+// 组件 API 的分类，按报告中的展示顺序排列
+export const categories: VcCoverageCategory[] = ['props', 'emits', 'slots', 'exposes'];
 
 export function logDebug(moduleName: string, message: string, ...args: any[]) {
   if (process.env.DEBUG) {
@@ -34,12 +38,21 @@ export function roundPercentage(current: number, total: number): number {
   return total > 0 ? Math.round((current / total) * 100) : 100;
 }
 
+// 未取整的覆盖率百分比，没有 API 时视为 100%
+export function toPercentage(covered: number, total: number): number {
+  return total > 0 ? (covered / total) * 100 : 100;
+}
+
 export function getTotalData(allCoverageData: VcCoverageData[]) {
   const data = {
     props: {
       total: 0,
       covered: 0,
     },
+    emits: {
+      total: 0,
+      covered: 0,
+    },
     slots: {
       total: 0,
       covered: 0
@@ -54,6 +67,10 @@ export function getTotalData(allCoverageData: VcCoverageData[]) {
       data.props.total += item.props.total
       data.props.covered += item.props.covered
     }
+    if (item.emits.total > 0) {
+      data.emits.total += item.emits.total
+      data.emits.covered += item.emits.covered
+    }
     if (item.slots.total > 0) {
       data.slots.total += item.slots.total
       data.slots.covered += item.slots.covered
@@ -74,10 +91,56 @@ export function toEventName(str: string) {
   return `on${str.charAt(0).toUpperCase()}${str.slice(1)}`
 }
 
+/**
+ * 获取组件中带有 @deprecated 标记的 API，包括计入覆盖率的与单独列出的
+ */
+export function getDeprecatedDetails(item: VcCoverageData): Array<VcCoverageDetail & { category: VcCoverageCategory }> {
+  return categories.flatMap(category => [
+    ...item[category].details.filter(detail => detail.deprecated),
+    ...item[category].deprecated || [],
+  ].map(detail => ({ ...detail, category })))
+}
+
+// 将 kebab-case 转换为 camelCase，例如 show-icon 转换为 showIcon
+export function camelize(str: string) {
+  return str.replace(/-(\w)/g, (_, c: string) => c.toUpperCase())
+}
+
 export function isComponentFile(filePath: string) {
   return filePath.endsWith('.vue') || filePath.endsWith('.tsx') || filePath.endsWith('.jsx')
 }
 
+export function isVueFile(filePath: string) {
+  return filePath.endsWith('.vue')
+}
+
+/**
+ * 提取单文件组件中的 script 与 script setup 内容，拼接为可供 ts-morph 分析的代码
+ */
+export function getSfcScriptContent(code: string, filename = 'anonymous.vue') {
+  const { descriptor } = parseSfc(code, { filename })
+  const blocks = [descriptor.script, descriptor.scriptSetup].filter(Boolean)
+  // script 以外的内容替换为空白，使脚本在生成内容中的行列号与 .vue 文件一致
+  let content = code.replace(/[^\r\n]/g, ' ')
+  for (const block of blocks) {
+    const { start, end } = block!.loc
+    content = content.slice(0, start.offset) + block!.content + content.slice(end.offset)
+  }
+  return {
+    content,
+    lang: blocks.find(block => block!.lang)?.lang || 'ts',
+  }
+}
+
+export function escapeXml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
 export function getThrowableMessage(e: Error, split = '\n') {
   let name    = e && e.name ? e.name : 'Error';
   let stack   = e && e.stack ? e.stack : '';
@@ -116,4 +179,53 @@ export function isComponentType(type: Type) {
   const constructSignatures = type.getConstructSignatures();
   if (constructSignatures.length === 0) return false;
   return true
-}
\ No newline at end of file
+}
+/**
+ * 获取类型中字符串、数字、布尔以及枚举字面量的取值，忽略 undefined 与 null
+ * strict 为 true 时只要存在非字面量成员就返回 undefined
+ */
+export function getLiteralValues(type: Type, strict = false): string[] | undefined {
+  const members = (type.isUnion() ? type.getUnionTypes() : [type]).filter(member => !member.isUndefined() && !member.isNull());
+  const values: string[] = [];
+  for (const member of members) {
+    if (member.isStringLiteral() || member.isNumberLiteral()) {
+      values.push(String(member.getLiteralValue()));
+    } else if (member.isBooleanLiteral()) {
+      values.push(member.getText());
+    } else if (strict) {
+      return;
+    }
+  }
+  return Array.from(new Set(values));
+}
+
+/**
+ * 获取取值未全部覆盖的 prop，包括单独列出的废弃 prop
+ */
+export function getIncompleteValueDetails(item: VcCoverageData): VcCoverageDetail[] {
+  return [...item.props.details, ...item.props.deprecated || []]
+    .filter(detail => detail.values?.some(value => !value.covered));
+}
+
+function formatPartialCoverage(name: string, items: Array<{ label: string, covered: boolean }>): string {
+  const missing = items.filter(item => !item.covered).map(item => item.label);
+  return `${name}: ${items.length - missing.length}/${items.length}${missing.length > 0 ? ` (missing: ${missing.join(', ')})` : ''}`;
+}
+
+// 格式化 prop 取值覆盖情况，如 size: 2/3 (missing: large)
+export function formatValueCoverage(detail: VcCoverageDetail): string {
+  return formatPartialCoverage(detail.name, (detail.values || []).map(value => ({ label: value.value, covered: value.covered })));
+}
+
+/**
+ * 获取参数未全部覆盖的作用域插槽，包括单独列出的废弃插槽
+ */
+export function getIncompleteParamDetails(item: VcCoverageData): VcCoverageDetail[] {
+  return [...item.slots.details, ...item.slots.deprecated || []]
+    .filter(detail => detail.params?.some(param => !param.covered));
+}
+
+// 格式化作用域插槽参数覆盖情况，如 row: 1/2 (missing: index)
+export function formatParamCoverage(detail: VcCoverageDetail): string {
+  return formatPartialCoverage(detail.name, (detail.params || []).map(param => ({ label: param.name, covered: param.covered })));
+}
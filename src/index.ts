@@ -1,5 +1,7 @@
 import VcCoverageReporter from './ApiReporter';
-import type { VcCoverageOptions } from './types';
+import { analyze } from './analyze';
+import { mergeCoverageReports } from './merge';
+import type { VcAnalyzeOptions, VcCoverageOptions, VcMergeOptions } from './types';
 
 // 导出默认函数
 export default function vcApiCoverage(options: VcCoverageOptions = {}) {
@@ -7,5 +9,5 @@ export default function vcApiCoverage(options: VcCoverageOptions = {}) {
 }
 
 // 导出类型和reporter供直接使用
-export { VcCoverageReporter };
-export type { VcCoverageOptions }; 
\ No newline at end of file
+export { VcCoverageReporter, analyze, mergeCoverageReports };
+export type { VcAnalyzeOptions, VcCoverageOptions, VcMergeOptions }; 
\ No newline at end of file
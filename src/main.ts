@@ -0,0 +1,95 @@
+import { parseArgs } from 'util';
+import _ from 'lodash';
+import { analyze } from './analyze';
+import { mergeCoverageReports } from './merge';
+import type { ReportFormat, VcAnalyzeOptions, VcMergeOptions } from './types';
+
+const helpMessage = `
+Usage: vc-api-coverage analyze [options]
+       vc-api-coverage merge <coverage.json...> [options]
+
+Commands:
+  analyze               Statically analyze component API coverage without
+                        running Vitest
+  merge                 Merge coverage.json files of sharded runs and
+                        regenerate the reports, accepts globs
+
+Options:
+  --components <glob>   Component files to report on, can be repeated (analyze)
+  --tests <glob>        Test files to analyze, can be repeated (analyze)
+  --exclude <glob>      Component files to leave out, can be repeated (analyze)
+  --prop-values         Report which literal values of union, enum and boolean
+                        props are passed in tests (analyze)
+  --format <formats>    Comma separated report formats: cli, html, json, lcov,
+                        cobertura, markdown, junit
+                        (default: cli,html,json)
+  --output-dir <dir>    Output directory of the reports (default: coverage)
+  --baseline <file>     Previous coverage.json to compare against
+  --fail-on-regression  Exit with a non-zero code when an API covered in the
+                        baseline is no longer covered
+  -h, --help            Show this message
+`;
+
+export async function main(argv: string[]) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      components: { type: 'string', multiple: true },
+      tests: { type: 'string', multiple: true },
+      exclude: { type: 'string', multiple: true },
+      'prop-values': { type: 'boolean' },
+      format: { type: 'string' },
+      'output-dir': { type: 'string' },
+      baseline: { type: 'string' },
+      'fail-on-regression': { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  const [command, ...reports] = positionals;
+  if (values.help || (command !== 'analyze' && command !== 'merge')) {
+    console.log(helpMessage);
+    if (!values.help) process.exitCode = 1;
+    return;
+  }
+  // 未指定的选项不传入，避免 undefined 覆盖 reporter 的默认值
+  const format = values.format ? values.format.split(',') as ReportFormat[] : undefined;
+
+  if (command === 'merge') {
+    if (reports.length === 0) {
+      console.error('[vc-api-coverage] Missing coverage.json files to merge');
+      process.exitCode = 1;
+      return;
+    }
+    await mergeCoverageReports({
+      reports,
+      ..._.omitBy<Omit<VcMergeOptions, 'reports'>>({
+        format,
+        outputDir: values['output-dir'],
+        baseline: values.baseline,
+        failOnRegression: values['fail-on-regression'],
+      }, _.isUndefined),
+    });
+    return;
+  }
+
+  if (!values.tests) {
+    console.error('[vc-api-coverage] Missing required option --tests');
+    process.exitCode = 1;
+    return;
+  }
+
+  await analyze({
+    tests: values.tests,
+    ..._.omitBy<Omit<VcAnalyzeOptions, 'tests'>>({
+      components: values.components,
+      exclude: values.exclude,
+      propValues: values['prop-values'],
+      format,
+      outputDir: values['output-dir'],
+      baseline: values.baseline,
+      failOnRegression: values['fail-on-regression'],
+    }, _.isUndefined),
+  });
+}
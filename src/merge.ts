@@ -0,0 +1,18 @@
+import fg from 'fast-glob';
+import VcCoverageReporter from './ApiReporter';
+import { readCoverageReport } from './common/baseline';
+import { mergeCoverageData } from './common/merge';
+import type { VcCoverageData, VcMergeOptions } from './types';
+
+/**
+ * 合并多份 coverage.json（例如 vitest --shard 各分片的结果）并重新生成报告
+ */
+export async function mergeCoverageReports(options: VcMergeOptions): Promise<VcCoverageData[]> {
+  const { reports, ...reporterOptions } = options;
+  const files = fg.sync(reports, { cwd: process.cwd(), absolute: true, ignore: ['**/node_modules/**'] });
+  if (files.length === 0) {
+    throw new Error(`No coverage reports found for ${[reports].flat().join(', ')}`);
+  }
+  const reporter = new VcCoverageReporter(reporterOptions);
+  return reporter.reportCoverageData(mergeCoverageData(files.map(readCoverageReport)));
+}
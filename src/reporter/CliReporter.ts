@@ -1,12 +1,14 @@
 import chalk from 'chalk';
 import Table from 'cli-table3';
-import type { VcCoverageData } from '../types'
-import { colorizePercentage, getTotalData, roundPercentage } from '../common/utils';
+import path from 'path';
+import type { VcCoverageCounts, VcCoverageData, VcHistoryEntry } from '../types'
+import { colorizePercentage, formatParamCoverage, formatValueCoverage, getDeprecatedDetails, getIncompleteParamDetails, getIncompleteValueDetails, getTotalData, roundPercentage, toPercentage } from '../common/utils';
 
 // 获取未覆盖的API列表
 function getUncoveredAPIs(coverageData: VcCoverageData): string {
   const uncoveredAPIs = [
     ...coverageData.props.details.filter(p => !p.covered).map(p => p.name),
+    ...coverageData.emits.details.filter(e => !e.covered).map(e => e.name),
     ...coverageData.slots.details.filter(s => !s.covered).map(s => s.name),
     ...coverageData.exposes.details.filter(ex => !ex.covered).map(ex => ex.name)
   ];
@@ -14,6 +16,18 @@ function getUncoveredAPIs(coverageData: VcCoverageData): string {
   return uncoveredAPIs.join(', ');
 }
 
+// 获取被忽略的API列表
+function getIgnoredAPIs(coverageData: VcCoverageData): string {
+  const ignoredAPIs = [
+    ...(coverageData.props.ignored || []),
+    ...(coverageData.emits.ignored || []),
+    ...(coverageData.slots.ignored || []),
+    ...(coverageData.exposes.ignored || []),
+  ].map(detail => detail.name);
+
+  return ignoredAPIs.join(', ');
+}
+
 // 根据覆盖率获取颜色处理后的文本
 function formatCoverageValue(covered: number, total: number): string {
   if (total === 0 && covered === 0) {
@@ -49,6 +63,7 @@ export function generateCliReport(allCoverageData: VcCoverageData[]): string {
   // 检查是否有任何未覆盖的API
   const hasUncoveredApis = allCoverageData.some(data => {
     return data.props.details.some(p => !p.covered) ||
+           data.emits.details.some(e => !e.covered) ||
            data.slots.details.some(s => !s.covered) ||
            data.exposes.details.some(ex => !ex.covered);
   });
@@ -56,17 +71,23 @@ export function generateCliReport(allCoverageData: VcCoverageData[]): string {
   // 检查是否有空组件（没有任何API的组件）
   const hasEmptyComponent = allCoverageData.some(data => 
     data.props.details.length === 0 && 
+    data.emits.details.length === 0 && 
     data.slots.details.length === 0 && 
     data.exposes.details.length === 0
   );
 
-  // 如果有未覆盖的API或空组件，需要添加额外的列
-  const needExtraColumn = hasUncoveredApis || hasEmptyComponent;
+  const hasIgnoredApis = allCoverageData.some(data => getIgnoredAPIs(data) !== '');
+
+  const hasIncompleteValues = allCoverageData.some(data => getIncompleteValueDetails(data).length > 0 || getIncompleteParamDetails(data).length > 0);
+
+  // 如果有未覆盖的API、被忽略的API、取值或参数未覆盖完全的 API 或空组件，需要添加额外的列
+  const needExtraColumn = hasUncoveredApis || hasIgnoredApis || hasIncompleteValues || hasEmptyComponent;
 
   // 表头和列宽设置
   const tableHeaders = [
     chalk.bold('Components'),
-    chalk.bold('Props/Events'),
+    chalk.bold('Props'),
+    chalk.bold('Emits'),
     chalk.bold('Slots'),
     chalk.bold('Exposes'),
     chalk.bold('Uncovered APIs')
@@ -86,30 +107,33 @@ export function generateCliReport(allCoverageData: VcCoverageData[]): string {
       head: [],  // 保持标题颜色，不应用额外样式
       border: [], // 保持边框颜色
     },
-    colWidths: [null, null, null, null, 40],
+    colWidths: [null, null, null, null, null, 40],
     // 启用文本自动换行
     wordWrap: true,
     // 启用文本自动换行
     wrapOnWordBoundary: true,
-    colAligns: ['left', 'right', 'right', 'right', 'left']
+    colAligns: ['left', 'right', 'right', 'right', 'right', 'left']
   });
   
   // 计算总体覆盖率
   const propsCoverage = roundPercentage(totalData.props.covered, totalData.props.total);
+
+  const emitsCoverage = roundPercentage(totalData.emits.covered, totalData.emits.total);
     
   const slotsCoverage = roundPercentage(totalData.slots.covered, totalData.slots.total);
   
   const exposesCoverage = roundPercentage(totalData.exposes.covered, totalData.exposes.total);
   
   const totalPercentage = roundPercentage(
-    totalData.props.covered + totalData.slots.covered + totalData.exposes.covered,
-    totalData.props.total + totalData.slots.total + totalData.exposes.total
+    totalData.props.covered + totalData.emits.covered + totalData.slots.covered + totalData.exposes.covered,
+    totalData.props.total + totalData.emits.total + totalData.slots.total + totalData.exposes.total
   );
   
   // 添加汇总行
   const summaryRow = [
     formatComponentName('All', totalPercentage),
     colorizePercentage(propsCoverage),
+    colorizePercentage(emitsCoverage),
     colorizePercentage(slotsCoverage),
     colorizePercentage(exposesCoverage),
   ];
@@ -124,23 +148,25 @@ export function generateCliReport(allCoverageData: VcCoverageData[]): string {
   // 添加每个组件的行
   allCoverageData.forEach(data => {
     const propsStats = data.props;
+    const emitsStats = data.emits;
     const slotsStats = data.slots;
     const exposeStats = data.exposes;
     const uncoveredAPIs = getUncoveredAPIs(data);
     
     const totalPercentage = roundPercentage(
-      propsStats.covered + slotsStats.covered + exposeStats.covered,
-      propsStats.total + slotsStats.total + exposeStats.total
+      propsStats.covered + emitsStats.covered + slotsStats.covered + exposeStats.covered,
+      propsStats.total + emitsStats.total + slotsStats.total + exposeStats.total
     );
     
     // 检查组件是否有任何API
-    if (data.props.details.length === 0 && data.slots.details.length === 0 && 
+    if (data.props.details.length === 0 && data.emits.details.length === 0 && data.slots.details.length === 0 && 
         data.exposes.details.length === 0) {
       // 对于没有API的组件，使用特殊标记
       const row = [
         formatComponentName(data.name, totalPercentage),
         chalk.dim('N/A'),
         chalk.dim('N/A'),
+        chalk.dim('N/A'),
         chalk.dim('N/A')
       ];
       
@@ -154,13 +180,22 @@ export function generateCliReport(allCoverageData: VcCoverageData[]): string {
       const row = [
         formatComponentName(data.name, totalPercentage),
         formatCoverageValue(propsStats.covered, propsStats.total),
+        formatCoverageValue(emitsStats.covered, emitsStats.total),
         formatCoverageValue(slotsStats.covered, slotsStats.total),
         formatCoverageValue(exposeStats.covered, exposeStats.total)
       ];
       
       if (needExtraColumn) {
         const rowItem = uncoveredAPIs ? chalk.yellow(uncoveredAPIs): chalk.green.bold('\u{2714}')
-        row.push(rowItem)
+        const ignoredAPIs = getIgnoredAPIs(data)
+        const incompleteValues = getIncompleteValueDetails(data).map(formatValueCoverage)
+        const incompleteParams = getIncompleteParamDetails(data).map(formatParamCoverage)
+        row.push([
+          rowItem,
+          ...(ignoredAPIs ? [chalk.dim(`ignored: ${ignoredAPIs}`)] : []),
+          ...incompleteValues.map(text => chalk.dim(`values: ${text}`)),
+          ...incompleteParams.map(text => chalk.dim(`slot params: ${text}`)),
+        ].join('\n'))
       }
       
       table.push(row);
@@ -169,3 +204,61 @@ export function generateCliReport(allCoverageData: VcCoverageData[]): string {
   
   return table.toString();
 }
+
+/**
+ * 列出带有 @deprecated 标记的 API 以及仍在使用它们的测试，便于安排移除
+ * 没有废弃 API 时返回空字符串
+ */
+export function generateCliDeprecated(allCoverageData: VcCoverageData[]): string {
+  const lines: string[] = [];
+  for (const data of allCoverageData) {
+    for (const detail of getDeprecatedDetails(data)) {
+      const tests = detail.tests || [];
+      const usage = tests.length > 0 ? chalk.yellow(`used by ${tests.length} test${tests.length > 1 ? 's' : ''}`) : chalk.dim('not used by tests');
+      lines.push(`  ${data.name} ${detail.category}.${detail.name}: ${usage}`);
+      for (const test of tests) {
+        lines.push(chalk.dim(`    ${path.relative(process.cwd(), test.file)}:${test.line}:${test.column} ${test.title.join(' › ')}`));
+      }
+    }
+  }
+  if (lines.length === 0) return '';
+  return [chalk.bold('Deprecated APIs:'), ...lines].join('\n');
+}
+
+// 格式化两次运行之间的覆盖率变化，单位为百分点
+function formatDelta(current: VcCoverageCounts, previous?: VcCoverageCounts): string {
+  if (!previous) return chalk.dim('new');
+  const delta = toPercentage(current.covered, current.total) - toPercentage(previous.covered, previous.total);
+  const text = `${delta > 0 ? '+' : ''}${delta.toFixed(1)}%`;
+  if (Math.abs(delta) < 0.05) return chalk.dim('±0.0%');
+  return delta > 0 ? chalk.green(text) : chalk.red(text);
+}
+
+/**
+ * 输出与上一次运行相比的覆盖率变化，只列出覆盖率有变化的组件
+ */
+export function generateCliDelta(current: VcHistoryEntry, previous: VcHistoryEntry): string {
+  const categories = [
+    `Props ${formatDelta(current.categories.props, previous.categories.props)}`,
+    `Emits ${formatDelta(current.categories.emits, previous.categories.emits)}`,
+    `Slots ${formatDelta(current.categories.slots, previous.categories.slots)}`,
+    `Exposes ${formatDelta(current.categories.exposes, previous.categories.exposes)}`,
+    `Total ${formatDelta(current.total, previous.total)}`,
+  ];
+  const lines = [`Compared with previous run (${previous.timestamp}): ${categories.join(' · ')}`];
+
+  for (const name of Object.keys(current.components)) {
+    const counts = current.components[name];
+    const previousCounts = previous.components[name];
+    const percentage = roundPercentage(counts.covered, counts.total);
+    if (previousCounts && toPercentage(counts.covered, counts.total) === toPercentage(previousCounts.covered, previousCounts.total)) continue;
+    const from = previousCounts ? `${roundPercentage(previousCounts.covered, previousCounts.total)}% → ` : '';
+    lines.push(`  ${name}: ${from}${percentage}% (${formatDelta(counts, previousCounts)})`);
+  }
+  for (const name of Object.keys(previous.components)) {
+    if (!current.components[name]) {
+      lines.push(`  ${name}: ${chalk.dim('removed')}`);
+    }
+  }
+  return lines.join('\n');
+}
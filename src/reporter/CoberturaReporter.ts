@@ -0,0 +1,93 @@
+import fs from 'fs'
+import path from 'path'
+import { VcCoverageData } from '../types'
+import { ApiFileRecord, getApiFileRecords } from '../common/apiLines'
+import { escapeXml } from '../common/utils'
+
+function getLineRate(lines: ApiFileRecord['lines']) {
+  if (lines.length === 0) return 1
+  return lines.filter(line => line.covered).length / lines.length
+}
+
+/**
+ * 生成 cobertura 格式的 API 覆盖率
+ * 每个文件对应一个 class，文件中声明的 API 对应 method，按文件目录划分 package
+ */
+export class CoberturaReporter {
+  private outputDir: string
+  private coverageData: VcCoverageData[] = []
+
+  constructor(outputDir = 'coverage') {
+    this.outputDir = outputDir
+  }
+
+  public setCoverageData(data: VcCoverageData[]) {
+    this.coverageData = data
+  }
+
+  public generateContent() {
+    const records = getApiFileRecords(this.coverageData)
+    const packages: Record<string, ApiFileRecord[]> = {}
+    for (const record of records) {
+      const dir = path.dirname(path.relative(process.cwd(), record.file))
+      if (!packages[dir]) packages[dir] = []
+      packages[dir].push(record)
+    }
+
+    const allLines = records.flatMap(record => record.lines)
+    const coveredLines = allLines.filter(line => line.covered).length
+
+    const packageXml = Object.keys(packages).map(dir => {
+      const classXml = packages[dir].map(record => this.generateClass(record)).join('\n')
+      return [
+        `    <package name="${escapeXml(dir.split(path.sep).join('.'))}" line-rate="${getLineRate(packages[dir].flatMap(record => record.lines))}" branch-rate="0" complexity="0">`,
+        '      <classes>',
+        classXml,
+        '      </classes>',
+        '    </package>',
+      ].filter(Boolean).join('\n')
+    }).join('\n')
+
+    return [
+      '<?xml version="1.0" ?>',
+      '<!DOCTYPE coverage SYSTEM "http://cobertura.sourceforge.net/xml/coverage-04.dtd">',
+      `<coverage lines-valid="${allLines.length}" lines-covered="${coveredLines}" line-rate="${getLineRate(allLines)}" branches-valid="0" branches-covered="0" branch-rate="0" timestamp="${Date.now()}" complexity="0" version="0.1">`,
+      '  <sources>',
+      `    <source>${escapeXml(process.cwd())}</source>`,
+      '  </sources>',
+      '  <packages>',
+      packageXml,
+      '  </packages>',
+      '</coverage>',
+    ].filter(Boolean).join('\n') + '\n'
+  }
+
+  private generateClass(record: ApiFileRecord) {
+    const filename = path.relative(process.cwd(), record.file)
+    const methods = record.apis.map(api => [
+      `            <method name="${escapeXml(api.name)}" signature="" line-rate="${api.covered ? 1 : 0}" branch-rate="0" complexity="0">`,
+      `              <lines><line number="${api.line}" hits="${api.covered ? 1 : 0}"/></lines>`,
+      '            </method>',
+    ].join('\n')).join('\n')
+    const lines = record.lines.map(line => `            <line number="${line.line}" hits="${line.covered ? 1 : 0}"/>`).join('\n')
+    return [
+      `        <class name="${escapeXml(path.basename(filename))}" filename="${escapeXml(filename)}" line-rate="${getLineRate(record.lines)}" branch-rate="0" complexity="0">`,
+      '          <methods>',
+      methods,
+      '          </methods>',
+      '          <lines>',
+      lines,
+      '          </lines>',
+      '        </class>',
+    ].filter(Boolean).join('\n')
+  }
+
+  public async generateReport() {
+    const reportDir = path.resolve(process.cwd(), this.outputDir)
+    if (!fs.existsSync(reportDir)) {
+      fs.mkdirSync(reportDir, { recursive: true })
+    }
+
+    fs.writeFileSync(path.join(reportDir, 'api-cobertura.xml'), this.generateContent())
+  }
+}
@@ -1,10 +1,14 @@
 import fs from 'fs'
 import path from 'path'
-import { VcCoverageData } from '../types'
+import { VcCoverageData, VcHistoryEntry } from '../types'
+import { getApiFileRecords } from '../common/apiLines'
+import { formatParamCoverage, formatValueCoverage, getDeprecatedDetails, getIncompleteParamDetails, getIncompleteValueDetails, toPercentage } from '../common/utils'
+import { htmlStyles } from './htmlStyles'
 
 export class HTMLReporter {
   private outputDir: string
   private coverageData: VcCoverageData[] = []
+  private history: VcHistoryEntry[] = []
  
   constructor(outputDir = 'coverage') {
     this.outputDir = outputDir
@@ -15,6 +19,10 @@ export class HTMLReporter {
 
   }
 
+  public setHistory(history: VcHistoryEntry[]) {
+    this.history = history
+  }
+
   public async generateReport() {
     const reportDir = path.resolve(process.cwd(), this.outputDir)
     
@@ -27,6 +35,15 @@ export class HTMLReporter {
       const htmlContent = this.generateHTML()
       const filePath = path.join(reportDir, 'index.html')
       fs.writeFileSync(filePath, htmlContent)
+
+      // 每个组件生成一个源码详情页
+      const componentsDir = path.join(reportDir, 'components')
+      if (this.coverageData.length > 0 && !fs.existsSync(componentsDir)) {
+        fs.mkdirSync(componentsDir, { recursive: true })
+      }
+      for (const component of this.coverageData) {
+        fs.writeFileSync(path.join(reportDir, this.getDetailPagePath(component)), this.generateDetailHTML(component))
+      }
       return filePath
     } catch (error) {
       console.error(`Failed to generate report: ${error as Error}.message`)
@@ -36,7 +53,8 @@ export class HTMLReporter {
 
   private generateHTML(): string {
     const componentRows = this.generateComponentRows()
-    const chartData = this.prepareChartData()
+    const chart = this.coverageData.length > 0 ? this.generateChart() : ''
+    const trendChart = this.history.length > 1 ? this.generateTrendChart() : ''
 
     const noApiMessage = this.coverageData.length === 0 ? '<div class="text-center text-gray-500 mt-4">No API found</div>' : ''
 
@@ -47,19 +65,7 @@ export class HTMLReporter {
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
     <title>Vue Component API Coverage Report</title>
-    <script src="https://cdn.tailwindcss.com"></script>
-    <style>
-        .coverage-badge {
-            display: inline-block;
-            padding: 4px 8px;
-            border-radius: 9999px;
-            font-size: 12px;
-            font-weight: 500;
-        }
-        .coverage-high { background-color: #DEF7EC; color: #03543F; }
-        .coverage-medium { background-color: #FEF3C7; color: #92400E; }
-        .coverage-low { background-color: #FEE2E2; color: #991B1B; }
-    </style>
+    <style>${htmlStyles}</style>
 </head>
 <body class="bg-gray-50">
     <div class="container mx-auto px-4 py-8">
@@ -71,12 +77,15 @@ export class HTMLReporter {
               </div>
           </div>
             ${noApiMessage}
+            ${chart}
+            ${trendChart}
             <div class="overflow-x-auto">
                 <table class="min-w-full divide-y divide-gray-200">
                     <thead>
                         <tr class="bg-gray-50">
                             <th class="px-6 py-3 text-left text-sm font-medium text-gray-500 tracking-wider">Components</th>
-                            <th class="px-6 py-3 text-left text-sm font-medium text-gray-500 tracking-wider">Props/Events</th>
+                            <th class="px-6 py-3 text-left text-sm font-medium text-gray-500 tracking-wider">Props</th>
+                            <th class="px-6 py-3 text-left text-sm font-medium text-gray-500 tracking-wider">Emits</th>
                             <th class="px-6 py-3 text-left text-sm font-medium text-gray-500 tracking-wider">Slots</th>
                             <th class="px-6 py-3 text-left text-sm font-medium text-gray-500 tracking-wider">Exposes</th>
                             <th class="px-6 py-3 text-left text-sm font-medium text-gray-500 tracking-wider">Uncovered APIs</th>
@@ -90,33 +99,6 @@ export class HTMLReporter {
         </div>
     </div>
 
-    <script>
-        // Initialize chart
-        const ctx = document.getElementById('coverageChart').getContext('2d');
-        new Chart(ctx, {
-            type: 'bar',
-            data: ${JSON.stringify(chartData)},
-            options: {
-                responsive: true,
-                scales: {
-                    y: {
-                        beginAtZero: true,
-                        max: 100,
-                        title: {
-                            display: true,
-                            text: 'Coverage %'
-                        }
-                    }
-                },
-                plugins: {
-                    legend: {
-                        display: true,
-                        position: 'bottom'
-                    }
-                }
-            }
-        });
-    </script>
 </body>
 </html>`
   }
@@ -124,16 +106,87 @@ export class HTMLReporter {
   getUncoveredApi(info: VcCoverageData) {
     const res = []
     res.push(...info.props.details.filter(detail => detail.covered === false))
+    res.push(...info.emits.details.filter(detail => detail.covered === false))
     res.push(...info.slots.details.filter(detail => detail.covered === false))
     res.push(...info.exposes.details.filter(detail => detail.covered === false))
     return res
   }
 
+  // 列出被忽略、不计入覆盖率的 API
+  private generateIgnoredApis(info: VcCoverageData): string {
+    const ignored = [...info.props.ignored || [], ...info.emits.ignored || [], ...info.slots.ignored || [], ...info.exposes.ignored || []]
+    if (ignored.length === 0) return ''
+    return `<div class="text-xs text-gray-400 mt-1">Ignored: ${ignored.map(detail => this.escapeHtml(detail.name)).join(', ')}</div>`
+  }
+
+  // 列出带有 @deprecated 标记的 API 及使用它们的测试数量
+  private generateDeprecatedApis(info: VcCoverageData): string {
+    const deprecated = getDeprecatedDetails(info)
+    if (deprecated.length === 0) return ''
+    const items = deprecated.map(detail => {
+      const count = detail.tests?.length || 0
+      return count > 0 ? `${this.escapeHtml(detail.name)} (${count} test${count > 1 ? 's' : ''})` : this.escapeHtml(detail.name)
+    })
+    return `<div class="text-xs text-gray-400 mt-1">Deprecated: ${items.join(', ')}</div>`
+  }
+
+  // 列出取值未全部覆盖的 prop
+  private generateIncompleteValues(info: VcCoverageData): string {
+    const details = getIncompleteValueDetails(info)
+    if (details.length === 0) return ''
+    return `<div class="text-xs text-gray-400 mt-1">Values: ${details.map(detail => this.escapeHtml(formatValueCoverage(detail))).join('; ')}</div>`
+  }
+
+  // 列出参数未全部覆盖的作用域插槽
+  private generateIncompleteParams(info: VcCoverageData): string {
+    const details = getIncompleteParamDetails(info)
+    if (details.length === 0) return ''
+    return `<div class="text-xs text-gray-400 mt-1">Slot params: ${details.map(detail => this.escapeHtml(formatParamCoverage(detail))).join('; ')}</div>`
+  }
+
+  // 统计已覆盖的 API 分别由哪种方式判定，仅在存在非静态分析来源时展示
+  private generateSourceSummary(info: VcCoverageData): string {
+    const details = [...info.props.details, ...info.emits.details, ...info.slots.details, ...info.exposes.details]
+    const counts: Record<string, number> = {}
+    for (const detail of details) {
+      for (const source of detail.sources || []) {
+        counts[source] = (counts[source] || 0) + 1
+      }
+    }
+    if (Object.keys(counts).every(source => source === 'static')) return ''
+    const summary = Object.keys(counts).map(source => `${source}: ${counts[source]}`).join(' · ')
+    return `<div class="text-xs text-gray-400">Covered by ${summary}</div>`
+  }
+
+  // 列出覆盖每个 API 的测试用例及其位置
+  private generateTestAttribution(info: VcCoverageData): string {
+    const details = [...info.props.details, ...info.emits.details, ...info.slots.details, ...info.exposes.details]
+      .filter(detail => detail.tests && detail.tests.length > 0)
+    if (details.length === 0) return ''
+    const items = details.map(detail => {
+      const tests = detail.tests!.map(test => {
+        const location = `${path.relative(process.cwd(), test.file)}:${test.line}:${test.column}`
+        return `<li>${this.escapeHtml(test.title.join(' › '))} <span class="text-gray-400">${this.escapeHtml(location)}</span></li>`
+      }).join('')
+      return `<li><span class="font-medium">${this.escapeHtml(detail.name)}</span><ul class="ml-4">${tests}</ul></li>`
+    }).join('')
+    return `
+      <details class="text-xs text-gray-500 mt-1">
+        <summary class="cursor-pointer">Tests</summary>
+        <ul class="whitespace-normal">${items}</ul>
+      </details>
+    `
+  }
+
+  private escapeHtml(text: string) {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+  }
+
   private generateComponentRows(): string {
     if (this.coverageData.length === 0) {
       return `
         <tr>
-          <td colspan="5" class="px-6 py-4 text-center text-gray-500">
+          <td colspan="6" class="px-6 py-4 text-center text-gray-500">
             No API found
           </td>
         </tr>
@@ -142,10 +195,11 @@ export class HTMLReporter {
 
     return this.coverageData.map(component => {
       const propsCoverage = component.props.total ? (component.props.covered / component.props.total * 100) : 100
+      const emitsCoverage = component.emits.total ? (component.emits.covered / component.emits.total * 100) : 100
       const slotsCoverage = component.slots.total ? (component.slots.covered / component.slots.total * 100) : 100
       const exposesCoverage = component.exposes.total ? (component.exposes.covered / component.exposes.total * 100) : 100
 
-      const hasNoApi = component.props.total === 0 && component.slots.total === 0 && component.exposes.total === 0
+      const hasNoApi = component.props.total === 0 && component.emits.total === 0 && component.slots.total === 0 && component.exposes.total === 0
       const uncoveredProps = this.getUncoveredApi(component)
       if (hasNoApi) {
         return `
@@ -154,7 +208,7 @@ export class HTMLReporter {
               <div class="text-sm font-medium text-gray-900">${component.name}</div>
               <div class="text-sm text-gray-500">${component.file}</div>
             </td>
-            <td colspan="4" class="px-6 py-4 text-center text-gray-500">
+            <td colspan="5" class="px-6 py-4 text-center text-gray-500">
               No API found
             </td>
           </tr>
@@ -164,7 +218,9 @@ export class HTMLReporter {
       return `
         <tr>
           <td class="px-6 py-4 whitespace-nowrap">
-            <div class="text-sm font-medium text-gray-900">${component.name}</div>
+            <div class="text-sm font-medium text-gray-900"><a href="${this.escapeHtml(this.getDetailPagePath(component))}">${component.name}</a></div>
+            ${this.generateSourceSummary(component)}
+            ${this.generateTestAttribution(component)}
           </td>
           <td class="px-6 py-4 whitespace-nowrap">
             <span class="coverage-badge ${this.getCoverageBadgeClass(propsCoverage)}">
@@ -172,6 +228,12 @@ export class HTMLReporter {
               <span class="ml-1">(${propsCoverage.toFixed(0)}%)</span>
             </span>
           </td>
+          <td class="px-6 py-4 whitespace-nowrap">
+            <span class="coverage-badge ${this.getCoverageBadgeClass(emitsCoverage)}">
+              ${component.emits.covered}/${component.emits.total}
+              <span class="ml-1">(${emitsCoverage.toFixed(0)}%)</span>
+            </span>
+          </td>
           <td class="px-6 py-4 whitespace-nowrap">
             <span class="coverage-badge ${this.getCoverageBadgeClass(slotsCoverage)}">
               ${component.slots.covered}/${component.slots.total}
@@ -186,11 +248,16 @@ export class HTMLReporter {
           </td>
           <td class="px-6 py-4">
             ${uncoveredProps.map(detail => {
+                const location = detail.location ? `${path.relative(process.cwd(), detail.location.file)}:${detail.location.line}:${detail.location.column}` : ''
                 return `
-                  <span class="inline-block text-sm text-gray-500 bg-gray-100 px-2 py-1 rounded-md my-1">${detail.name}</span>
+                  <span class="inline-block text-sm text-gray-500 bg-gray-100 px-2 py-1 rounded-md my-1"${location ? ` title="${this.escapeHtml(location)}"` : ''}>${detail.name}</span>
                 `
               }).join('')}
               ${uncoveredProps.length === 0 ? '<span class="text-green-500">✓</span>' : ''}
+              ${this.generateIgnoredApis(component)}
+              ${this.generateDeprecatedApis(component)}
+              ${this.generateIncompleteValues(component)}
+              ${this.generateIncompleteParams(component)}
           </td>
         </tr>
       `
@@ -205,6 +272,11 @@ export class HTMLReporter {
         data: this.coverageData.map(c => c.props.total ? (c.props.covered / c.props.total * 100) : 100),
         backgroundColor: 'rgba(59, 130, 246, 0.5)'
       },
+      {
+        label: 'Emits',
+        data: this.coverageData.map(c => c.emits.total ? (c.emits.covered / c.emits.total * 100) : 100),
+        backgroundColor: 'rgba(16, 185, 129, 0.5)'
+      },
       {
         label: 'Slots',
         data: this.coverageData.map(c => c.slots.total ? (c.slots.covered / c.slots.total * 100) : 100),
@@ -219,6 +291,156 @@ export class HTMLReporter {
     return { labels, datasets }
   }
 
+  // 以内联 SVG 绘制各组件的分类覆盖率柱状图，不依赖外部图表库
+  private generateChart(): string {
+    const { labels, datasets } = this.prepareChartData()
+    const barWidth = 12
+    const groupWidth = datasets.length * barWidth + 24
+    const chartHeight = 160
+    const top = 10
+    const left = 40
+    const width = left + labels.length * groupWidth + 10
+    const height = top + chartHeight + 60
+
+    const grid = [0, 50, 100].map(value => {
+      const y = top + chartHeight - value / 100 * chartHeight
+      return `<line x1="${left}" y1="${y}" x2="${width}" y2="${y}" stroke="#e5e7eb"/><text x="${left - 6}" y="${y + 4}" font-size="10" text-anchor="end" fill="#6b7280">${value}%</text>`
+    }).join('')
+    const bars = labels.map((label, index) => {
+      const x = left + index * groupWidth + 12
+      const groupBars = datasets.map((dataset, datasetIndex) => {
+        const barHeight = dataset.data[index] / 100 * chartHeight
+        return `<rect x="${x + datasetIndex * barWidth}" y="${top + chartHeight - barHeight}" width="${barWidth - 2}" height="${barHeight}" fill="${dataset.backgroundColor}"><title>${this.escapeHtml(`${label} ${dataset.label}: ${dataset.data[index].toFixed(0)}%`)}</title></rect>`
+      }).join('')
+      const labelX = x + datasets.length * barWidth / 2
+      return `${groupBars}<text x="${labelX}" y="${top + chartHeight + 14}" font-size="10" text-anchor="end" fill="#6b7280" transform="rotate(-30 ${labelX} ${top + chartHeight + 14})">${this.escapeHtml(label)}</text>`
+    }).join('')
+    const legend = datasets.map(dataset => `
+      <span class="inline-block ml-4"><span class="inline-block" style="width: 10px; height: 10px; background-color: ${dataset.backgroundColor}"></span> ${dataset.label}</span>
+    `).join('')
+
+    return `
+      <div class="overflow-x-auto mb-8">
+        <svg id="coverageChart" width="${width}" height="${height}" role="img" aria-label="Coverage by component">${grid}${bars}</svg>
+        <div class="text-xs text-gray-500 text-center">${legend}</div>
+      </div>
+    `
+  }
+
+  // 以内联 SVG 绘制历史运行中总体及各分类覆盖率的趋势
+  private generateTrendChart(): string {
+    const series = [
+      { label: 'Total', color: 'rgba(17, 24, 39, 0.8)', data: this.history.map(entry => toPercentage(entry.total.covered, entry.total.total)) },
+      ...this.prepareChartData().datasets.map(({ label, backgroundColor }) => {
+        const category = label.toLowerCase() as keyof VcHistoryEntry['categories']
+        return {
+          label,
+          color: backgroundColor,
+          data: this.history.map(entry => toPercentage(entry.categories[category].covered, entry.categories[category].total)),
+        }
+      }),
+    ]
+    const chartHeight = 160
+    const chartWidth = Math.max(300, (this.history.length - 1) * 40)
+    const top = 10
+    const left = 40
+    const width = left + chartWidth + 10
+    const height = top + chartHeight + 30
+    const getX = (index: number) => left + index / (this.history.length - 1) * chartWidth
+    const getY = (value: number) => top + chartHeight - value / 100 * chartHeight
+
+    const grid = [0, 50, 100].map(value => {
+      const y = getY(value)
+      return `<line x1="${left}" y1="${y}" x2="${width}" y2="${y}" stroke="#e5e7eb"/><text x="${left - 6}" y="${y + 4}" font-size="10" text-anchor="end" fill="#6b7280">${value}%</text>`
+    }).join('')
+    const lines = series.map(({ label, color, data }) => {
+      const points = data.map((value, index) => `${getX(index).toFixed(1)},${getY(value).toFixed(1)}`).join(' ')
+      const dots = data.map((value, index) => `<circle cx="${getX(index).toFixed(1)}" cy="${getY(value).toFixed(1)}" r="2.5" fill="${color}"><title>${this.escapeHtml(`${label} ${value.toFixed(1)}% · ${this.history[index].timestamp}`)}</title></circle>`).join('')
+      return `<polyline points="${points}" fill="none" stroke="${color}" stroke-width="2"/>${dots}`
+    }).join('')
+    const axis = [0, this.history.length - 1].map(index => {
+      const anchor = index === 0 ? 'start' : 'end'
+      return `<text x="${getX(index)}" y="${top + chartHeight + 16}" font-size="10" text-anchor="${anchor}" fill="#6b7280">${this.escapeHtml(new Date(this.history[index].timestamp).toLocaleString())}</text>`
+    }).join('')
+    const legend = series.map(({ label, color }) => `
+      <span class="inline-block ml-4"><span class="inline-block" style="width: 10px; height: 10px; background-color: ${color}"></span> ${label}</span>
+    `).join('')
+
+    return `
+      <div class="overflow-x-auto mb-8">
+        <div class="text-sm font-medium text-gray-500">Coverage trend of the last ${this.history.length} runs</div>
+        <svg id="trendChart" width="${width}" height="${height}" role="img" aria-label="Coverage trend">${grid}${lines}${axis}</svg>
+        <div class="text-xs text-gray-500 text-center">${legend}</div>
+      </div>
+    `
+  }
+
+  // 组件详情页相对于报告目录的路径
+  private getDetailPagePath(component: VcCoverageData) {
+    const name = path.relative(process.cwd(), component.file).replace(/[\\/:]/g, '_').replace(/^\.+/, '')
+    return `components/${name}.html`
+  }
+
+  // 组件详情页：展示组件源码以及声明 API 的其他文件，按覆盖情况高亮 API 声明所在的行
+  private generateDetailHTML(component: VcCoverageData): string {
+    const records = getApiFileRecords([component])
+    const files = [component.file, ...records.map(record => record.file).filter(file => file !== component.file)]
+      .filter(file => !file.includes('node_modules') && fs.existsSync(file))
+
+    const sources = files.map(file => {
+      const record = records.find(item => item.file === file)
+      const lines = new Map((record?.lines || []).map(line => [line.line, line.covered]))
+      const apis = new Map<number, string[]>()
+      for (const api of record?.apis || []) {
+        apis.set(api.line, [...(apis.get(api.line) || []), api.name])
+      }
+      const rows = fs.readFileSync(file, 'utf-8').split(/\r?\n/).map((code, index) => {
+        const lineNumber = index + 1
+        const className = lines.has(lineNumber) ? (lines.get(lineNumber) ? 'line-covered' : 'line-uncovered') : ''
+        return `<tr class="${className}"><td class="line-number">${lineNumber}</td><td class="line-apis">${this.escapeHtml((apis.get(lineNumber) || []).join(', '))}</td><td><pre>${this.escapeHtml(code)}</pre></td></tr>`
+      }).join('\n')
+      return `
+        <h2 class="text-lg font-medium mt-4">${this.escapeHtml(path.relative(process.cwd(), file))}</h2>
+        <div class="overflow-x-auto">
+          <table class="source">${rows}</table>
+        </div>
+      `
+    }).join('')
+
+    const badge = (covered: number, total: number) => {
+      const coverage = total ? covered / total * 100 : 100
+      return `<span class="coverage-badge ${this.getCoverageBadgeClass(coverage)}">${covered}/${total} (${coverage.toFixed(0)}%)</span>`
+    }
+
+    return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${this.escapeHtml(component.name)} - Vue Component API Coverage Report</title>
+    <style>${htmlStyles}</style>
+</head>
+<body class="bg-gray-50">
+    <div class="container mx-auto px-4 py-8">
+        <div class="bg-white rounded-lg shadow-lg p-6">
+          <div class="flex items-center justify-between mb-4">
+              <h1 class="text-2xl font-bold">${this.escapeHtml(component.name)}</h1>
+              <a class="text-sm" href="../index.html">All components</a>
+          </div>
+          <div class="text-sm text-gray-500 mb-4">
+              Props ${badge(component.props.covered, component.props.total)}
+              Emits ${badge(component.emits.covered, component.emits.total)}
+              Slots ${badge(component.slots.covered, component.slots.total)}
+              Exposes ${badge(component.exposes.covered, component.exposes.total)}
+          </div>
+          ${sources || '<div class="text-center text-gray-500 mt-4">Source not found</div>'}
+        </div>
+    </div>
+</body>
+</html>`
+  }
+
   private getCoverageBadgeClass(percentage: number): string {
     if (percentage >= 80) return 'coverage-high'
     if (percentage >= 50) return 'coverage-medium'
@@ -11,6 +11,10 @@ export class JSONReporter {
       total: 0,
       covered: 0
     },
+    emits: {
+      total: 0,
+      covered: 0
+    },
     slots: {
       total: 0,
       covered: 0
@@ -40,6 +44,8 @@ export class JSONReporter {
         totalComponents: this.coverageData.length,
         totalProps: this.totalData.props.total,
         coveredProps: this.totalData.props.covered,
+        totalEmits: this.totalData.emits.total,
+        coveredEmits: this.totalData.emits.covered,
         totalSlots: this.totalData.slots.total,
         coveredSlots: this.totalData.slots.covered,
         totalExposes: this.totalData.exposes.total,
@@ -59,6 +65,7 @@ export class JSONReporter {
     if (this.coverageData.length === 0) {
       return {
         props: 0,
+        emits: 0,
         slots: 0,
         methods: 0,
         total: 0
@@ -69,13 +76,14 @@ export class JSONReporter {
 
     const stats = {
       props: totalStats.props.total ? (totalStats.props.covered / totalStats.props.total) * 100 : 100,
+      emits: totalStats.emits.total ? (totalStats.emits.covered / totalStats.emits.total) * 100 : 100,
       slots: totalStats.slots.total ? (totalStats.slots.covered / totalStats.slots.total) * 100 : 100,
       methods: totalStats.exposes.total ? (totalStats.exposes.covered / totalStats.exposes.total) * 100 : 100
     }
 
     // 计算总体覆盖率
-    const totalCovered = totalStats.props.covered + totalStats.slots.covered + totalStats.exposes.covered
-    const totalItems = totalStats.props.total + totalStats.slots.total + totalStats.exposes.total
+    const totalCovered = totalStats.props.covered + totalStats.emits.covered + totalStats.slots.covered + totalStats.exposes.covered
+    const totalItems = totalStats.props.total + totalStats.emits.total + totalStats.slots.total + totalStats.exposes.total
 
     return {
       ...stats,
@@ -0,0 +1,81 @@
+import fs from 'fs'
+import path from 'path'
+import { VcCoverageCategory, VcCoverageData, VcCoverageDetail } from '../types'
+import { categories, escapeXml } from '../common/utils'
+
+function getDetails(item: VcCoverageData) {
+  return categories.flatMap(category => item[category].details.map(detail => ({ category, detail })))
+}
+
+function getIgnored(item: VcCoverageData) {
+  return categories.flatMap(category => (item[category].ignored || []).map(detail => ({ category, detail })))
+}
+
+/**
+ * 生成 JUnit XML，每个组件对应一个 testsuite，每个 API 对应一个 testcase，未覆盖的 API 记为 failure
+ */
+export class JUnitReporter {
+  private outputDir: string
+  private coverageData: VcCoverageData[] = []
+
+  constructor(outputDir = 'coverage') {
+    this.outputDir = outputDir
+  }
+
+  public setCoverageData(data: VcCoverageData[]) {
+    this.coverageData = data
+  }
+
+  public generateContent() {
+    const details = this.coverageData.flatMap(getDetails)
+    const failures = details.filter(({ detail }) => !detail.covered).length
+    const skipped = this.coverageData.flatMap(getIgnored).length
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites name="vc-api-coverage" tests="${details.length + skipped}" failures="${failures}" errors="0" skipped="${skipped}">`,
+      ...this.coverageData.map(item => this.generateTestSuite(item)),
+      '</testsuites>',
+      '',
+    ].join('\n')
+  }
+
+  private generateTestSuite(item: VcCoverageData) {
+    const file = path.relative(process.cwd(), item.file)
+    const details = getDetails(item)
+    const failures = details.filter(({ detail }) => !detail.covered).length
+    const ignored = getIgnored(item)
+    return [
+      `  <testsuite name="${escapeXml(item.name)}" tests="${details.length + ignored.length}" failures="${failures}" errors="0" skipped="${ignored.length}" file="${escapeXml(file)}">`,
+      ...details.map(({ category, detail }) => this.generateTestCase(item, category, detail)),
+      // 被忽略的 API 记为 skipped，不计入失败
+      ...ignored.map(({ category, detail }) => `    <testcase classname="${escapeXml(item.name)}" name="${escapeXml(`${category}.${detail.name}`)}">\n      <skipped message="ignored"/>\n    </testcase>`),
+      '  </testsuite>',
+    ].join('\n')
+  }
+
+  private generateTestCase(item: VcCoverageData, category: VcCoverageCategory, detail: VcCoverageDetail) {
+    const name = `${category}.${detail.name}`
+    const attrs = `classname="${escapeXml(item.name)}" name="${escapeXml(name)}"`
+    if (detail.covered) {
+      return `    <testcase ${attrs}/>`
+    }
+    // 失败信息中带上 API 的声明位置，便于在 CI 中直接定位
+    const file = path.relative(process.cwd(), detail.location?.file || item.file)
+    const location = detail.location ? `${file}:${detail.location.line}:${detail.location.column}` : file
+    const message = `${category} "${detail.name}" of ${item.name} is not covered by any test`
+    return [
+      `    <testcase ${attrs} file="${escapeXml(file)}"${detail.location ? ` line="${detail.location.line}"` : ''}>`,
+      `      <failure message="${escapeXml(message)}" type="UncoveredApi">${escapeXml(`${message}\n    at ${location}`)}</failure>`,
+      '    </testcase>',
+    ].join('\n')
+  }
+
+  public async generateReport() {
+    const reportDir = path.resolve(process.cwd(), this.outputDir)
+    if (!fs.existsSync(reportDir)) {
+      fs.mkdirSync(reportDir, { recursive: true })
+    }
+
+    fs.writeFileSync(path.join(reportDir, 'api-junit.xml'), this.generateContent())
+  }
+}
@@ -0,0 +1,47 @@
+import fs from 'fs'
+import path from 'path'
+import { VcCoverageData } from '../types'
+import { getApiFileRecords } from '../common/apiLines'
+
+/**
+ * 生成 lcov 格式的 API 覆盖率，每个 API 对应一个函数记录与其声明所在的行
+ */
+export class LcovReporter {
+  private outputDir: string
+  private coverageData: VcCoverageData[] = []
+
+  constructor(outputDir = 'coverage') {
+    this.outputDir = outputDir
+  }
+
+  public setCoverageData(data: VcCoverageData[]) {
+    this.coverageData = data
+  }
+
+  public generateContent() {
+    return getApiFileRecords(this.coverageData).map(record => {
+      const lines = [
+        'TN:',
+        `SF:${record.file}`,
+        ...record.apis.map(api => `FN:${api.line},${api.name}`),
+        ...record.apis.map(api => `FNDA:${api.covered ? 1 : 0},${api.name}`),
+        `FNF:${record.apis.length}`,
+        `FNH:${record.apis.filter(api => api.covered).length}`,
+        ...record.lines.map(line => `DA:${line.line},${line.covered ? 1 : 0}`),
+        `LF:${record.lines.length}`,
+        `LH:${record.lines.filter(line => line.covered).length}`,
+        'end_of_record',
+      ]
+      return lines.join('\n') + '\n'
+    }).join('')
+  }
+
+  public async generateReport() {
+    const reportDir = path.resolve(process.cwd(), this.outputDir)
+    if (!fs.existsSync(reportDir)) {
+      fs.mkdirSync(reportDir, { recursive: true })
+    }
+
+    fs.writeFileSync(path.join(reportDir, 'api-lcov.info'), this.generateContent())
+  }
+}
@@ -0,0 +1,131 @@
+import fs from 'fs'
+import path from 'path'
+import { VcCoverageCategory, VcCoverageData } from '../types'
+import { formatParamCoverage, formatValueCoverage, getDeprecatedDetails, getIncompleteParamDetails, getIncompleteValueDetails, getTotalData, roundPercentage } from '../common/utils'
+
+const categories: Array<{ key: VcCoverageCategory, label: string }> = [
+  { key: 'props', label: 'Props' },
+  { key: 'emits', label: 'Emits' },
+  { key: 'slots', label: 'Slots' },
+  { key: 'exposes', label: 'Exposes' },
+]
+
+function formatRatio(covered: number, total: number) {
+  return `${covered}/${total} (${roundPercentage(covered, total)}%)`
+}
+
+function escapeTableCell(text: string) {
+  return text.replace(/\|/g, '\\|')
+}
+
+function escapeHtml(text: string) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+/**
+ * 生成适合贴到 PR 评论中的 GitHub Markdown 摘要
+ * 组件按覆盖率从低到高排列，超过 maxRows 的组件只统计数量
+ */
+export class MarkdownReporter {
+  private outputDir: string
+  private maxRows: number
+  private coverageData: VcCoverageData[] = []
+
+  constructor(outputDir = 'coverage', maxRows = 50) {
+    this.outputDir = outputDir
+    this.maxRows = maxRows
+  }
+
+  public setCoverageData(data: VcCoverageData[]) {
+    this.coverageData = data
+  }
+
+  public generateContent() {
+    const totalData = getTotalData(this.coverageData)
+    const total = categories.reduce((sum, { key }) => sum + totalData[key].total, 0)
+    const covered = categories.reduce((sum, { key }) => sum + totalData[key].covered, 0)
+
+    const lines = [
+      '## Component API Coverage',
+      '',
+      '| Category | Coverage |',
+      '| --- | ---: |',
+      ...categories.map(({ key, label }) => `| ${label} | ${formatRatio(totalData[key].covered, totalData[key].total)} |`),
+      `| **Total** | **${formatRatio(covered, total)}** |`,
+      '',
+    ]
+
+    if (this.coverageData.length === 0) {
+      return lines.join('\n')
+    }
+
+    const components = [...this.coverageData].sort((a, b) => roundPercentage(a.covered, a.total) - roundPercentage(b.covered, b.total))
+    const rows = components.slice(0, this.maxRows)
+
+    lines.push(
+      `| Component | ${categories.map(({ label }) => label).join(' | ')} |`,
+      `| --- | ${categories.map(() => '---:').join(' | ')} |`,
+      ...rows.map(item => `| ${escapeTableCell(item.name)} | ${categories.map(({ key }) => formatRatio(item[key].covered, item[key].total)).join(' | ')} |`),
+      '',
+    )
+    if (components.length > rows.length) {
+      lines.push(`_${components.length - rows.length} more components not shown._`, '')
+    }
+
+    for (const item of rows) {
+      const uncovered = categories
+        .map(({ key }) => ({ key, names: item[key].details.filter(detail => !detail.covered).map(detail => detail.name) }))
+        .filter(({ names }) => names.length > 0)
+      const ignored = categories.flatMap(({ key }) => (item[key].ignored || []).map(detail => detail.name))
+      const incompleteValues = getIncompleteValueDetails(item)
+      const incompleteParams = getIncompleteParamDetails(item)
+      if (uncovered.length === 0 && ignored.length === 0 && incompleteValues.length === 0 && incompleteParams.length === 0) continue
+      const count = uncovered.reduce((sum, { names }) => sum + names.length, 0)
+      const summary = [
+        `${count} uncovered`,
+        ...(ignored.length > 0 ? [`${ignored.length} ignored`] : []),
+        ...(incompleteValues.length > 0 ? [`${incompleteValues.length} with missing values`] : []),
+        ...(incompleteParams.length > 0 ? [`${incompleteParams.length} with missing slot params`] : []),
+      ].join(', ')
+      lines.push(
+        '<details>',
+        `<summary>${escapeHtml(item.name)}: ${summary}</summary>`,
+        '',
+        ...uncovered.map(({ key, names }) => `- ${key}: ${names.map(name => `\`${name}\``).join(', ')}`),
+        ...(ignored.length > 0 ? [`- ignored: ${ignored.map(name => `\`${name}\``).join(', ')}`] : []),
+        ...(incompleteValues.length > 0 ? [`- values: ${incompleteValues.map(detail => escapeHtml(formatValueCoverage(detail))).join('; ')}`] : []),
+        ...(incompleteParams.length > 0 ? [`- slot params: ${incompleteParams.map(detail => escapeHtml(formatParamCoverage(detail))).join('; ')}`] : []),
+        '',
+        '</details>',
+        '',
+      )
+    }
+
+    // 废弃 API 不受 maxRows 限制，全部列出以便安排移除
+    const deprecated = this.coverageData.flatMap(item => getDeprecatedDetails(item).map(detail => ({ item, detail })))
+    if (deprecated.length > 0) {
+      lines.push(
+        '### Deprecated APIs',
+        '',
+        '| Component | API | Used by tests |',
+        '| --- | --- | --- |',
+        ...deprecated.map(({ item, detail }) => {
+          const tests = (detail.tests || []).map(test => `\`${path.relative(process.cwd(), test.file)}:${test.line}\``)
+          return `| ${escapeTableCell(item.name)} | ${detail.category}.\`${detail.name}\` | ${tests.length > 0 ? tests.join(', ') : '-'} |`
+        }),
+        '',
+      )
+    }
+
+    return lines.join('\n')
+  }
+
+  public async generateReport() {
+    const reportDir = path.resolve(process.cwd(), this.outputDir)
+    if (!fs.existsSync(reportDir)) {
+      fs.mkdirSync(reportDir, { recursive: true })
+    }
+
+    fs.writeFileSync(path.join(reportDir, 'api-coverage.md'), this.generateContent())
+  }
+}
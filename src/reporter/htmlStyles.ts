@@ -0,0 +1,71 @@
+/**
+ * HTML 报告内联使用的样式，替代 tailwind CDN，保证报告在离线环境中也能正常显示
+ * 仅包含报告中用到的工具类
+ */
+export const htmlStyles = `
+*, ::before, ::after { box-sizing: border-box; border: 0 solid #e5e7eb; }
+body { margin: 0; font-family: ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif; line-height: 1.5; color: #111827; }
+a { color: #2563eb; text-decoration: none; }
+a:hover { text-decoration: underline; }
+table { border-collapse: collapse; }
+ul { margin: 0; padding: 0; list-style: none; }
+pre { margin: 0; }
+.container { width: 100%; }
+@media (min-width: 1280px) { .container { max-width: 1280px; } }
+.mx-auto { margin-left: auto; margin-right: auto; }
+.p-6 { padding: 1.5rem; }
+.px-2 { padding-left: 0.5rem; padding-right: 0.5rem; }
+.px-4 { padding-left: 1rem; padding-right: 1rem; }
+.px-6 { padding-left: 1.5rem; padding-right: 1.5rem; }
+.py-1 { padding-top: 0.25rem; padding-bottom: 0.25rem; }
+.py-3 { padding-top: 0.75rem; padding-bottom: 0.75rem; }
+.py-4 { padding-top: 1rem; padding-bottom: 1rem; }
+.py-8 { padding-top: 2rem; padding-bottom: 2rem; }
+.my-1 { margin-top: 0.25rem; margin-bottom: 0.25rem; }
+.mt-1 { margin-top: 0.25rem; }
+.mt-4 { margin-top: 1rem; }
+.mb-4 { margin-bottom: 1rem; }
+.mb-8 { margin-bottom: 2rem; }
+.ml-1 { margin-left: 0.25rem; }
+.ml-4 { margin-left: 1rem; }
+.flex { display: flex; }
+.inline-block { display: inline-block; }
+.items-center { align-items: center; }
+.justify-between { justify-content: space-between; }
+.min-w-full { min-width: 100%; }
+.overflow-x-auto { overflow-x: auto; }
+.divide-y > * + * { border-top-width: 1px; }
+.divide-gray-200 > * + * { border-color: #e5e7eb; }
+.bg-white { background-color: #fff; }
+.bg-gray-50 { background-color: #f9fafb; }
+.bg-gray-100 { background-color: #f3f4f6; }
+.rounded-md { border-radius: 0.375rem; }
+.rounded-lg { border-radius: 0.5rem; }
+.shadow-lg { box-shadow: 0 10px 15px -3px rgb(0 0 0 / 0.1), 0 4px 6px -4px rgb(0 0 0 / 0.1); }
+.text-left { text-align: left; }
+.text-center { text-align: center; }
+.text-xs { font-size: 0.75rem; line-height: 1rem; }
+.text-sm { font-size: 0.875rem; line-height: 1.25rem; }
+.text-lg { font-size: 1.125rem; line-height: 1.75rem; }
+.text-2xl { font-size: 1.5rem; line-height: 2rem; }
+.font-medium { font-weight: 500; }
+.font-bold { font-weight: 700; }
+.tracking-wider { letter-spacing: 0.05em; }
+.whitespace-nowrap { white-space: nowrap; }
+.whitespace-normal { white-space: normal; }
+.cursor-pointer { cursor: pointer; }
+.text-gray-400 { color: #9ca3af; }
+.text-gray-500 { color: #6b7280; }
+.text-gray-900 { color: #111827; }
+.text-green-500 { color: #22c55e; }
+.coverage-badge { display: inline-block; padding: 4px 8px; border-radius: 9999px; font-size: 12px; font-weight: 500; }
+.coverage-high { background-color: #DEF7EC; color: #03543F; }
+.coverage-medium { background-color: #FEF3C7; color: #92400E; }
+.coverage-low { background-color: #FEE2E2; color: #991B1B; }
+.source { width: 100%; font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; font-size: 0.8125rem; }
+.source td { padding: 0 0.5rem; vertical-align: top; }
+.source .line-number { width: 1%; text-align: right; color: #9ca3af; user-select: none; }
+.source .line-apis { width: 1%; white-space: nowrap; color: #6b7280; }
+.source .line-covered { background-color: #DEF7EC; }
+.source .line-uncovered { background-color: #FEE2E2; }
+`
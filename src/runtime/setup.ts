@@ -0,0 +1,156 @@
+import { afterAll } from 'vitest'
+import type { WorkerGlobalState } from 'vitest'
+import { config } from '@vue/test-utils'
+import type { ComponentInternalInstance, ComponentOptions, ComponentPublicInstance } from 'vue'
+import type { VcData } from '../types'
+import { camelize, isComponentFile, toEventName } from '../common/utils'
+
+/**
+ * 运行时 API 追踪
+ * 在 vitest 的 setupFiles 中引入，通过 @vue/test-utils 的全局 mixin 记录每个组件实际使用到的 API
+ */
+
+interface RuntimeRecord {
+  props: Set<string>
+  emits: Set<string>
+  slots: Set<string>
+  exposes: Set<string>
+}
+
+const TRACKED = Symbol('vc-api-coverage')
+const reservedProps = ['key', 'ref', 'ref_for', 'ref_key']
+
+const records: Record<string, RuntimeRecord> = {}
+const componentFiles = new WeakMap<object, string | null>()
+
+// @vue/test-utils 挂载的是组件对象的浅拷贝，拷贝与导出的组件共用同一个 setup 或 render 函数
+function isSameComponent(exported: unknown, type: object): boolean {
+  if (exported === type) return true
+  if (!exported || typeof exported !== 'object') return false
+  const { setup, render } = type as ComponentOptions
+  const component = exported as ComponentOptions
+  return (!!setup && component.setup === setup) || (!!render && component.render === render)
+}
+
+/**
+ * 获取组件定义所在的文件
+ * .vue 组件由 @vitejs/plugin-vue 注入 __file，其余组件从 vitest 的模块缓存中反查导出
+ */
+function getComponentFile(type: object): string | null {
+  if (componentFiles.has(type)) return componentFiles.get(type)!
+  let file = (type as { __file?: string }).__file || null
+  if (!file) {
+    // vitest 没有公开读取模块缓存的接口，按其导出的 WorkerGlobalState 类型访问 worker 状态
+    const worker = (globalThis as { __vitest_worker__?: WorkerGlobalState }).__vitest_worker__
+    for (const [id, mod] of worker?.moduleCache || []) {
+      if (!isComponentFile(id) || !mod.exports) continue
+      if (Object.values(mod.exports).some(exported => isSameComponent(exported, type))) {
+        file = id
+        break
+      }
+    }
+  }
+  componentFiles.set(type, file)
+  return file
+}
+
+function getRecord(instance: ComponentInternalInstance): RuntimeRecord | null {
+  const file = getComponentFile(instance.type)
+  if (!file) return null
+  if (!records[file]) {
+    records[file] = { props: new Set(), emits: new Set(), slots: new Set(), exposes: new Set() }
+  }
+  return records[file]
+}
+
+// 记录父组件传入的 props 与监听的事件
+function trackProps(instance: ComponentInternalInstance, record: RuntimeRecord) {
+  for (const key in instance.vnode.props || {}) {
+    if (reservedProps.includes(key) || key.startsWith('onVnode')) continue
+    if (/^on[A-Z]/.test(key)) {
+      record.emits.add(key)
+    } else {
+      record.props.add(camelize(key))
+    }
+  }
+}
+
+// 记录组件实际触发的事件
+function trackEmits(instance: ComponentInternalInstance, record: RuntimeRecord) {
+  const emit = instance.emit
+  instance.emit = (event: string, ...args: unknown[]) => {
+    record.emits.add(toEventName(camelize(event)))
+    return emit(event, ...args)
+  }
+}
+
+// 记录组件实际渲染的插槽，插槽在组件更新时会被重新赋值，需要重新包装
+function trackSlots(instance: ComponentInternalInstance, record: RuntimeRecord) {
+  const slots = instance.slots as Record<string, ((...args: unknown[]) => unknown) & { [TRACKED]?: boolean }>
+  for (const name of Object.keys(slots)) {
+    const slot = slots[name]
+    if (typeof slot !== 'function' || slot[TRACKED]) continue
+    const trackedSlot = (...args: unknown[]) => {
+      record.slots.add(name)
+      return slot(...args)
+    }
+    slots[name] = Object.assign(trackedSlot, { [TRACKED]: true })
+  }
+}
+
+// 记录通过 ref 访问的暴露属性
+function trackExposes(instance: ComponentInternalInstance, record: RuntimeRecord) {
+  const exposed = instance.exposed
+  if (!exposed) return
+  instance.exposed = new Proxy(exposed, {
+    get(target, key, receiver) {
+      // 忽略 __v_skip 等 Vue 内部标记
+      if (typeof key === 'string' && !key.startsWith('__v') && key in target) {
+        record.exposes.add(key)
+      }
+      return Reflect.get(target, key, receiver)
+    }
+  })
+}
+
+const coverageMixin: ComponentOptions = {
+  beforeCreate(this: ComponentPublicInstance) {
+    const record = getRecord(this.$)
+    if (!record) return
+    trackProps(this.$, record)
+    trackEmits(this.$, record)
+    trackSlots(this.$, record)
+  },
+  // expose 选项在 created 之后才会被处理
+  beforeMount(this: ComponentPublicInstance) {
+    const record = getRecord(this.$)
+    if (!record) return
+    trackExposes(this.$, record)
+  },
+  beforeUpdate(this: ComponentPublicInstance) {
+    const record = getRecord(this.$)
+    if (!record) return
+    trackProps(this.$, record)
+    trackSlots(this.$, record)
+  },
+}
+
+export function getRuntimeData(): Record<string, VcData> {
+  const data: Record<string, VcData> = {}
+  for (const file in records) {
+    data[file] = {
+      props: Array.from(records[file].props),
+      emits: Array.from(records[file].emits),
+      slots: Array.from(records[file].slots),
+      exposes: Array.from(records[file].exposes),
+    }
+  }
+  return data
+}
+
+config.global.mixins.push(coverageMixin)
+
+// 通过任务元数据将结果传递给主进程中的 reporter
+afterAll((suite) => {
+  suite.meta.vcApiCoverage = getRuntimeData()
+})
@@ -1,11 +1,105 @@
 export interface VcCoverageOptions {
-  format?: ('cli' | 'html' | 'json')[]
+  format?: ReportFormat[]
   outputDir?: string
   openBrowser?: boolean
+  // 组件文件的 glob，匹配的组件即使没有任何测试也会出现在报告中
   include?: string | string[]
+  // 排除的组件文件 glob，默认排除 node_modules 与测试文件
+  exclude?: string | string[]
+  thresholds?: VcCoverageThresholds
+  markdown?: VcMarkdownOptions
+  // outputDir 中 api-history.json 保留的运行记录数量，默认 30，设为 0 时不记录历史
+  historySize?: number
+  // 作为对比基线的 coverage.json 路径，通常是主分支上一次运行的 JSON 报告
+  baseline?: string
+  // 存在由已覆盖变为未覆盖的 API 时让进程以非零状态退出
+  failOnRegression?: boolean
+  // 不计入覆盖率的 API，支持名称、正则以及按组件 glob 设置
+  ignore?: VcIgnoreOptions
+  // 统计字面量联合、枚举与布尔类型的 prop 在测试中传入了哪些取值，默认关闭
+  propValues?: boolean
+  // 带有 @deprecated 标记的 API 的统计方式，默认 count
+  deprecated?: VcDeprecatedPolicy
+  // 分析使用的 tsconfig 路径，默认自动查找 cwd 中的 tsconfig.json，设为 false 时使用内置的编译选项
+  tsconfig?: string | false
+  // 是否将组件与测试文件的分析结果缓存到磁盘，默认开启
+  cache?: boolean
+  // 分析缓存目录，默认 node_modules/.cache/vc-api-coverage
+  cacheDir?: string
   onFinished?: (data: VcCoverageData[]) => void
 }
 
+// API 名称或匹配名称的正则
+export type VcIgnorePattern = string | RegExp
+
+export type VcIgnoreValues = Partial<Record<VcCoverageCategory, VcIgnorePattern[]>>
+
+// 不计入覆盖率的 API，在报告中单独列出
+export interface VcIgnoreOptions extends VcIgnoreValues {
+  // 按组件文件 glob 单独设置忽略的 API，与全局设置合并
+  components?: Record<string, VcIgnoreValues>
+  // 是否忽略 Vue 内置的 key、ref、class、style、onVnode* 等属性，默认 true
+  // 设为 false 时这些属性与普通 props 一样统计，可以在 props 中自行列出需要忽略的部分
+  internal?: boolean
+}
+
+// count：与其他 API 一样计入覆盖率并标记为 deprecated
+// exclude：不计入覆盖率，也不出现在报告中
+// separate：不计入覆盖率，在报告中单独列出
+export type VcDeprecatedPolicy = 'count' | 'exclude' | 'separate'
+
+export interface VcMarkdownOptions {
+  // 表格中最多展示的组件数量，按覆盖率从低到高截取，默认 50
+  maxRows?: number
+}
+
+export interface VcAnalyzeOptions extends VcCoverageOptions {
+  // 需要静态分析的测试文件 glob
+  tests: string | string[]
+  // 组件文件 glob，等同于 include
+  components?: string | string[]
+}
+
+export interface VcMergeOptions extends VcCoverageOptions {
+  // 需要合并的 coverage.json 路径或 glob
+  reports: string | string[]
+}
+
+export type VcCoverageCategory = 'props' | 'emits' | 'slots' | 'exposes'
+
+// 各类 API 的最低覆盖率（百分比）
+export type VcThresholdValues = Partial<Record<VcCoverageCategory | 'total', number>>
+
+export interface VcCoverageThresholds extends VcThresholdValues {
+  // 按组件文件 glob 单独设置阈值，匹配的组件逐个检查
+  components?: Record<string, VcThresholdValues>
+}
+
+export interface VcThresholdViolation {
+  // 未达标的组件名称，全局阈值为 undefined
+  component?: string
+  // 触发的阈值来源：global 或组件 glob
+  pattern: string
+  category: VcCoverageCategory | 'total'
+  actual: number
+  expected: number
+}
+
+export interface VcApiChange {
+  component: string
+  category: VcCoverageCategory
+  name: string
+}
+
+export interface VcBaselineDiff {
+  // 基线中已覆盖，当前未覆盖
+  regressions: VcApiChange[]
+  // 基线中不存在且当前未覆盖
+  newUncovered: VcApiChange[]
+  // 基线中存在，当前已不存在
+  removed: VcApiChange[]
+}
+
 export interface ComponentCoverage {
   props: Array<{ name: string; covered: boolean }>
   emits: Array<{ name: string; covered: boolean }>
@@ -13,20 +107,39 @@ export interface ComponentCoverage {
   exposes: Array<{ name: string; covered: boolean }>
 }
 
-export type ReportFormat = 'cli' | 'html' | 'json' 
+export type ReportFormat = 'cli' | 'html' | 'json' | 'lcov' | 'cobertura' | 'markdown' | 'junit'
 
 
 export interface VcData {
   props: string[],
+  emits: string[],
   slots: string[],
   exposes: string[],
 }
 
+export interface VcCoverageCounts {
+  total: number
+  covered: number
+}
+
+// 单次运行的覆盖率汇总，按时间顺序保存在历史文件中
+export interface VcHistoryEntry {
+  timestamp: string
+  total: VcCoverageCounts
+  categories: Record<VcCoverageCategory, VcCoverageCounts>
+  // 组件相对于项目根目录的路径 -> 该组件的 API 总数与覆盖数
+  components: Record<string, VcCoverageCounts>
+}
+
 export interface VcTotalData {
   props: {
     total: number,
     covered: number
   },
+  emits: {
+    total: number,
+    covered: number
+  },
   slots: {
     total: number,
     covered: number
@@ -37,6 +150,68 @@ export interface VcTotalData {
   }
 }
 
+export type VcCoverageSource = 'static' | 'runtime' | 'coverage'
+
+// 源码位置，行列号从 1 开始
+export interface VcSourceLocation {
+  file: string;
+  line: number;
+  column: number;
+}
+
+// 测试文件中使用某个 API 的位置
+export interface VcTestUsage extends VcSourceLocation {
+  // 由外到内的 describe 与 it/test 标题
+  title: string[];
+}
+
+// 组件文件 -> API 类别 -> API 名称 -> 使用该 API 的测试
+export type VcUsageData = Record<string, Partial<Record<VcCoverageCategory, Record<string, VcTestUsage[]>>>>
+
+// 组件文件 -> API 类别 -> API 名称 -> 声明该 API 的位置
+export type VcLocationData = Record<string, Partial<Record<VcCoverageCategory, Record<string, VcSourceLocation>>>>
+
+// 组件文件 -> prop 名称 -> 字面量取值
+export type VcValueData = Record<string, Record<string, string[]>>
+
+// 组件文件 -> 插槽名称 -> 作用域插槽参数
+export type VcSlotParamData = Record<string, Record<string, string[]>>
+
+// prop 的一个字面量取值及其是否在测试中传入过
+export interface VcValueDetail {
+  value: string;
+  covered: boolean;
+}
+
+// 作用域插槽的一个参数及其是否被测试中的插槽函数读取
+export interface VcSlotParamDetail {
+  name: string;
+  covered: boolean;
+}
+
+export interface VcCoverageDetail {
+  name: string;
+  covered: boolean;
+  // 标记该 API 由哪种方式判定为已覆盖
+  sources?: VcCoverageSource[];
+  // API 的声明位置，可能位于组件引用的其他文件中
+  location?: VcSourceLocation;
+  // 静态分析到的覆盖该 API 的测试用例
+  tests?: VcTestUsage[];
+  // 声明时带有 @deprecated 标记
+  deprecated?: boolean;
+  // 开启 propValues 时 prop 各个字面量取值的覆盖情况
+  values?: VcValueDetail[];
+  // 作用域插槽各个参数的覆盖情况
+  params?: VcSlotParamDetail[];
+}
+
+// 被忽略的 API，不计入覆盖率统计
+export interface VcIgnoredDetail {
+  name: string;
+  location?: VcSourceLocation;
+}
+
 export interface VcCoverageData {
   name: string;
   file: string;
@@ -45,16 +220,37 @@ export interface VcCoverageData {
   props: {
     total: number;
     covered: number;
-    details: Array<{ name: string; covered: boolean }>;
+    details: VcCoverageDetail[];
+    ignored?: VcIgnoredDetail[];
+    // deprecated 为 separate 时单独列出的 API，不计入 total 与 covered
+    deprecated?: VcCoverageDetail[];
+  };
+  emits: {
+    total: number;
+    covered: number;
+    details: VcCoverageDetail[];
+    ignored?: VcIgnoredDetail[];
+    deprecated?: VcCoverageDetail[];
   };
   slots: {
     total: number;
     covered: number;
-    details: Array<{ name: string; covered: boolean }>;
+    details: VcCoverageDetail[];
+    ignored?: VcIgnoredDetail[];
+    deprecated?: VcCoverageDetail[];
   };
   exposes: {
     total: number;
     covered: number;
-    details: Array<{ name: string; covered: boolean }>;
+    details: VcCoverageDetail[];
+    ignored?: VcIgnoredDetail[];
+    deprecated?: VcCoverageDetail[];
   };
-}
\ No newline at end of file
+}
+
+declare module 'vitest' {
+  interface TaskMeta {
+    // 运行时模式下由 setup 文件记录的组件 API 使用情况
+    vcApiCoverage?: Record<string, VcData>
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { analyze } from '../src/analyze'
+
+describe('analyze', () => {
+  afterEach(() => {
+    process.exitCode = undefined
+  })
+
+  it('should statically analyze components and tests without running vitest', async () => {
+    const res = await analyze({
+      tests: 'test/fixtures/analyze/*.spec.tsx',
+      components: 'test/fixtures/analyze/*.tsx',
+      format: [],
+      historySize: 0,
+    })
+    expect(res.map(item => item.name)).toEqual(['analyze/Button.tsx'])
+    expect(res[0].props.details).toEqual(expect.arrayContaining([
+      expect.objectContaining({ name: 'size', covered: true }),
+      expect.objectContaining({ name: 'disabled', covered: false }),
+    ]))
+    expect(res[0].emits.details).toEqual([expect.objectContaining({ name: 'onClick', covered: true })])
+  })
+
+  it('should fail on apis that regressed against the baseline', async () => {
+    const baseline = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'vc-baseline-')), 'coverage.json')
+    await fs.writeFile(baseline, JSON.stringify({
+      components: [{
+        name: 'analyze/Button.tsx',
+        file: path.resolve('test/fixtures/analyze/Button.tsx'),
+        props: { details: [{ name: 'disabled', covered: true }] },
+      }],
+    }))
+    await analyze({
+      tests: 'test/fixtures/analyze/*.spec.tsx',
+      components: 'test/fixtures/analyze/*.tsx',
+      format: [],
+      historySize: 0,
+      baseline,
+      failOnRegression: true,
+    })
+    expect(process.exitCode).toBe(1)
+    await fs.rm(path.dirname(baseline), { recursive: true, force: true })
+  })
+})
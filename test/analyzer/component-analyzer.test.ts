@@ -1,4 +1,6 @@
 import ComponentAnalyzer from "../../src/analyzer/ComponentAnalyzer";
+import { getSfcScriptContent } from "../../src/common/utils";
+import path from "path";
 import { Project, ts } from "ts-morph";
 import { describe, it, expect } from "vitest";
 
@@ -28,6 +30,37 @@ describe('ComponentAnalyzer', () => {
     expect(result.props).toStrictEqual(['type'])
   });
 
+  it('should split emits from props of the component', () => {
+    const project = new Project({
+      compilerOptions: {
+        target: ts.ScriptTarget.ESNext,
+        module: ts.ModuleKind.ESNext,
+        jsx: ts.JsxEmit.Preserve,
+        moduleResolution: ts.ModuleResolutionKind.NodeNext,
+      },
+    });
+    const code = `
+        import { defineComponent } from 'vue';
+
+        export default defineComponent({
+            name: 'Button',
+            props: {
+                type: { type: String, default: 'default' },
+                onSelect: Function,
+            },
+            emits: {
+                click: (event: MouseEvent) => true,
+                'update:value': null,
+            },
+        });
+    `;
+    const sourceFile = project.createSourceFile('./button.tsx', code);
+    const analyzer = new ComponentAnalyzer(sourceFile);
+    const result = analyzer.analyze();
+    expect(result.props).toStrictEqual(['type', 'onSelect'])
+    expect(result.emits.sort()).toStrictEqual(['onClick', 'onUpdate:value'])
+  });
+
   it('should analyze slots of the component', () => {
     const project = new Project({
       compilerOptions: {
@@ -53,6 +86,45 @@ describe('ComponentAnalyzer', () => {
     expect(result.slots).toStrictEqual(['default'])
   });
 
+  it('should analyze parameters of scoped slots', () => {
+    const project = new Project({
+      compilerOptions: {
+        target: ts.ScriptTarget.ESNext,
+        module: ts.ModuleKind.ESNext,
+        jsx: ts.JsxEmit.Preserve,
+        moduleResolution: ts.ModuleResolutionKind.NodeNext,
+      },
+    });
+    const code = `
+        import { defineComponent, VNode, SlotsType } from 'vue';
+
+        export default defineComponent({
+            name: 'Table',
+            slots: Object as SlotsType<{
+                default: () => VNode,
+                row: { item: string, index: number },
+                empty?: { text?: string },
+            }>,
+        });
+    `;
+    const sourceFile = project.createSourceFile('./table.tsx', code);
+    const analyzer = new ComponentAnalyzer(sourceFile);
+    analyzer.analyze();
+    expect(analyzer.getSlotParams()).toEqual({
+      row: ['item', 'index'],
+      empty: ['text'],
+    })
+
+    const setupFile = project.createSourceFile('/fake/List.vue.ts', [
+      `defineSlots<{`,
+      `  item(props: { item: string, selected: boolean }): any`,
+      `}>();`,
+    ].join('\n'));
+    const setupAnalyzer = new ComponentAnalyzer(setupFile);
+    setupAnalyzer.analyze();
+    expect(setupAnalyzer.getSlotParams()).toEqual({ item: ['item', 'selected'] })
+  });
+
   it('should analyze expose of the component', () => {
     const project = new Project({
       compilerOptions: {
@@ -136,4 +208,426 @@ describe('ComponentAnalyzer', () => {
     const result = analyzer.analyze();
     expect(result.exposes).toStrictEqual(['scrollTo', 'clickInfo', 'submit'])
   });
+
+  it('should analyze script setup macros of the vue sfc', () => {
+    const project = new Project({
+      compilerOptions: {
+        target: ts.ScriptTarget.ESNext,
+        module: ts.ModuleKind.ESNext,
+        jsx: ts.JsxEmit.Preserve,
+        moduleResolution: ts.ModuleResolutionKind.NodeNext,
+      },
+    });
+    const sfc = `
+        <template>
+            <button @click="emit('click')"><slot /></button>
+        </template>
+        <script setup lang="ts">
+        import { VNode } from 'vue';
+        interface ButtonProps {
+            type?: string;
+            size?: 'small' | 'large';
+        }
+        withDefaults(defineProps<ButtonProps>(), { type: 'default' });
+        const emit = defineEmits<{
+            (e: 'click'): void;
+            (e: 'change', value: string): void;
+        }>();
+        defineSlots<{
+            default(): VNode[];
+            icon(props: { size: number }): VNode[];
+        }>();
+        const visible = defineModel<boolean>('visible');
+        const focus = () => {};
+        defineExpose({ focus });
+        </script>
+    `;
+    const { content } = getSfcScriptContent(sfc);
+    const sourceFile = project.createSourceFile('./button.vue.ts', content);
+    const analyzer = new ComponentAnalyzer(sourceFile);
+    const result = analyzer.analyze();
+    expect(result.props).toStrictEqual(['type', 'size', 'visible'])
+    expect(result.emits).toStrictEqual(['onClick', 'onChange', 'onUpdate:visible'])
+    expect(result.slots).toStrictEqual(['default', 'icon'])
+    expect(result.exposes).toStrictEqual(['focus'])
+  });
+
+  it('should analyze runtime macros of the vue sfc', () => {
+    const project = new Project({
+      compilerOptions: {
+        target: ts.ScriptTarget.ESNext,
+        module: ts.ModuleKind.ESNext,
+        jsx: ts.JsxEmit.Preserve,
+        moduleResolution: ts.ModuleResolutionKind.NodeNext,
+      },
+    });
+    const sfc = `
+        <script setup>
+        defineProps({
+            label: String,
+            disabled: { type: Boolean, default: false },
+        });
+        defineEmits(['click', 'update:label']);
+        const modelValue = defineModel();
+        </script>
+    `;
+    const { content } = getSfcScriptContent(sfc);
+    const sourceFile = project.createSourceFile('./input.vue.ts', content);
+    const analyzer = new ComponentAnalyzer(sourceFile);
+    const result = analyzer.analyze();
+    expect(result.props).toStrictEqual(['label', 'disabled', 'modelValue'])
+    expect(result.emits).toStrictEqual(['onClick', 'onUpdate:label', 'onUpdate:modelValue'])
+  });
+
+  it('should resolve the declaring location of every api', () => {
+    const project = new Project({
+      compilerOptions: {
+        target: ts.ScriptTarget.ESNext,
+        module: ts.ModuleKind.ESNext,
+        jsx: ts.JsxEmit.Preserve,
+        moduleResolution: ts.ModuleResolutionKind.NodeNext,
+      },
+    });
+    project.createSourceFile('./fake/common/props.ts', [
+      `export const commonProps = {`,
+      `  loading: Boolean,`,
+      `};`,
+    ].join('\n'));
+    const sourceFile = project.createSourceFile('./fake/button/Button.tsx', [
+      `import { defineComponent, SlotsType } from 'vue';`,
+      `import { commonProps } from '../common/props';`,
+      `export default defineComponent({`,
+      `  props: {`,
+      `    ...commonProps,`,
+      `    size: String,`,
+      `  },`,
+      `  slots: Object as SlotsType<{ icon: () => any }>,`,
+      `  emits: ['click'],`,
+      `  expose: ['focus'],`,
+      `});`,
+    ].join('\n'));
+    const analyzer = new ComponentAnalyzer(sourceFile);
+    analyzer.analyze();
+    const locations = analyzer.getLocations();
+    const buttonFile = path.resolve('fake/button/Button.tsx');
+    expect(locations.props.loading).toEqual({ file: path.resolve('fake/common/props.ts'), line: 2, column: 3 });
+    expect(locations.props.size).toEqual({ file: buttonFile, line: 6, column: 5 });
+    expect(locations.slots.icon).toEqual({ file: buttonFile, line: 8, column: 32 });
+    expect(locations.emits.onClick).toEqual({ file: buttonFile, line: 9, column: 11 });
+    expect(locations.exposes.focus).toEqual({ file: buttonFile, line: 10, column: 12 });
+  });
+
+  it('should report locations of the vue sfc against the original file', () => {
+    const project = new Project({
+      compilerOptions: {
+        target: ts.ScriptTarget.ESNext,
+        module: ts.ModuleKind.ESNext,
+        jsx: ts.JsxEmit.Preserve,
+        moduleResolution: ts.ModuleResolutionKind.NodeNext,
+      },
+    });
+    const sfc = [
+      `<template>`,
+      `  <input :value="label" />`,
+      `</template>`,
+      `<script setup lang="ts">`,
+      `defineProps<{`,
+      `  label: string`,
+      `}>();`,
+      `</script>`,
+    ].join('\n');
+    const { content } = getSfcScriptContent(sfc);
+    const sourceFile = project.createSourceFile('/fake/Input.vue.ts', content);
+    const analyzer = new ComponentAnalyzer(sourceFile);
+    analyzer.analyze();
+    expect(analyzer.getLocations().props.label).toEqual({ file: '/fake/Input.vue', line: 6, column: 3 });
+  });
+
+  it('should leave out apis marked with ignore comments', () => {
+    const project = new Project({
+      compilerOptions: {
+        target: ts.ScriptTarget.ESNext,
+        module: ts.ModuleKind.ESNext,
+        jsx: ts.JsxEmit.Preserve,
+        moduleResolution: ts.ModuleResolutionKind.NodeNext,
+      },
+    });
+    const code = `
+        import { defineComponent } from 'vue';
+
+        export default defineComponent({
+            name: 'Button',
+            props: {
+                size: String,
+                /* vc-api-coverage ignore */
+                legacySize: String,
+                /** @coverageIgnore internal escape hatch */
+                innerClass: String,
+            },
+            emits: [
+                'click',
+                // vc-api-coverage ignore-next-line
+                'legacyClick',
+            ],
+            setup(props, { expose }) {
+                expose({ focus, /* vc-api-coverage ignore */ blur });
+            },
+        });
+    `;
+    const sourceFile = project.createSourceFile('./button.tsx', code);
+    const analyzer = new ComponentAnalyzer(sourceFile);
+    const result = analyzer.analyze();
+    expect(result.props).toStrictEqual(['size'])
+    expect(result.emits).toStrictEqual(['onClick'])
+    expect(result.exposes).toStrictEqual(['focus'])
+    expect(analyzer.getIgnored()).toEqual({
+      props: ['legacySize', 'innerClass'],
+      emits: ['onLegacyClick'],
+      slots: [],
+      exposes: ['blur'],
+    })
+  });
+
+  it('should apply a trailing ignore comment to the api it follows', () => {
+    const project = new Project({
+      compilerOptions: {
+        target: ts.ScriptTarget.ESNext,
+        module: ts.ModuleKind.ESNext,
+        jsx: ts.JsxEmit.Preserve,
+        moduleResolution: ts.ModuleResolutionKind.NodeNext,
+      },
+    });
+    const code = `
+        import { defineComponent } from 'vue';
+
+        export default defineComponent({
+            name: 'Button',
+            props: {
+                size: String, // vc-api-coverage ignore
+                color: String,
+                legacyColor: String /* vc-api-coverage ignore */
+            },
+            emits: ['click', /* vc-api-coverage ignore */ 'legacyClick'],
+        });
+    `;
+    const sourceFile = project.createSourceFile('./button.tsx', code);
+    const analyzer = new ComponentAnalyzer(sourceFile);
+    const result = analyzer.analyze();
+    expect(result.props).toStrictEqual(['color'])
+    expect(result.emits).toStrictEqual(['onClick'])
+    expect(analyzer.getIgnored()).toEqual({
+      props: ['size', 'legacyColor'],
+      emits: ['onLegacyClick'],
+      slots: [],
+      exposes: [],
+    })
+  });
+
+  it('should apply a trailing ignore-next-line comment only to the next line', () => {
+    const project = new Project({
+      compilerOptions: {
+        target: ts.ScriptTarget.ESNext,
+        module: ts.ModuleKind.ESNext,
+        jsx: ts.JsxEmit.Preserve,
+        moduleResolution: ts.ModuleResolutionKind.NodeNext,
+      },
+    });
+    const code = `
+        import { defineComponent } from 'vue';
+
+        export default defineComponent({
+            name: 'Button',
+            props: {
+                size: String, // vc-api-coverage ignore-next-line
+                color: String,
+                type: String,
+            },
+        });
+    `;
+    const sourceFile = project.createSourceFile('./button.tsx', code);
+    const analyzer = new ComponentAnalyzer(sourceFile);
+    const result = analyzer.analyze();
+    expect(result.props).toStrictEqual(['size', 'type'])
+    expect(analyzer.getIgnored().props).toEqual(['color'])
+  });
+
+  it('should flag apis tagged with @deprecated', () => {
+    const project = new Project({
+      compilerOptions: {
+        target: ts.ScriptTarget.ESNext,
+        module: ts.ModuleKind.ESNext,
+        jsx: ts.JsxEmit.Preserve,
+        moduleResolution: ts.ModuleResolutionKind.NodeNext,
+      },
+    });
+    const code = `
+        import { defineComponent } from 'vue';
+
+        export default defineComponent({
+            name: 'Button',
+            props: {
+                size: String,
+                /** @deprecated use size instead */
+                legacySize: String,
+                // @deprecated only JSDoc comments count
+                theme: String,
+            },
+            emits: [
+                'click',
+                /** @deprecated */
+                'legacyClick',
+            ],
+        });
+    `;
+    const sourceFile = project.createSourceFile('./button.tsx', code);
+    const analyzer = new ComponentAnalyzer(sourceFile);
+    const result = analyzer.analyze();
+    expect(result.props).toStrictEqual(['size', 'legacySize', 'theme'])
+    expect(analyzer.getDeprecated()).toEqual({
+      props: ['legacySize'],
+      emits: ['onLegacyClick'],
+      slots: [],
+      exposes: [],
+    })
+  });
+
+  it('should only flag apis whose JSDoc carries a @deprecated tag', () => {
+    const project = new Project({
+      compilerOptions: {
+        target: ts.ScriptTarget.ESNext,
+        module: ts.ModuleKind.ESNext,
+        jsx: ts.JsxEmit.Preserve,
+        moduleResolution: ts.ModuleResolutionKind.NodeNext,
+      },
+    });
+    const code = `
+        import { defineComponent } from 'vue';
+
+        export default defineComponent({
+            name: 'Button',
+            props: {
+                /** Size of the button */
+                // @deprecated values are mapped, see /* legacy */
+                size: String,
+                /** Replaces the \`@deprecated\` legacyColor prop */
+                color: String,
+                /* @deprecated block comments are not JSDoc */
+                theme: String,
+                legacySize: String, /** @deprecated use size instead */
+                type: String,
+            },
+        });
+    `;
+    const analyzer = new ComponentAnalyzer(project.createSourceFile('./button.tsx', code));
+    analyzer.analyze();
+    expect(analyzer.getDeprecated().props).toEqual([])
+
+    const { content } = getSfcScriptContent(`
+        <script setup lang="ts">
+        defineProps<{
+            size?: string
+            /**
+             * Size before the redesign
+             * @deprecated use size instead
+             */
+            legacySize?: string
+        }>();
+        </script>
+    `);
+    const sfcAnalyzer = new ComponentAnalyzer(project.createSourceFile('./input.vue.ts', content));
+    sfcAnalyzer.analyze();
+    expect(sfcAnalyzer.getDeprecated().props).toEqual(['legacySize'])
+  });
+
+  it('should enumerate literal values of union, enum and boolean props when prop values are enabled', () => {
+    const project = new Project({
+      compilerOptions: {
+        target: ts.ScriptTarget.ESNext,
+        module: ts.ModuleKind.ESNext,
+        jsx: ts.JsxEmit.Preserve,
+        moduleResolution: ts.ModuleResolutionKind.NodeNext,
+      },
+    });
+    const code = `
+        import { defineComponent, type PropType } from 'vue';
+
+        enum Kind { Primary = 'primary', Danger = 'danger' }
+
+        export default defineComponent({
+            name: 'Button',
+            props: {
+                size: String as PropType<'small' | 'medium' | 'large'>,
+                kind: { type: String as PropType<Kind>, required: true },
+                disabled: Boolean,
+                level: Number as PropType<1 | 2>,
+                label: String,
+                tag: String as PropType<'button'>,
+            },
+        });
+    `;
+    const sourceFile = project.createSourceFile('./button.tsx', code);
+    const analyzer = new ComponentAnalyzer(sourceFile, { propValues: true });
+    analyzer.analyze();
+    expect(analyzer.getPropValues()).toEqual({
+      size: ['small', 'medium', 'large'],
+      kind: ['primary', 'danger'],
+      disabled: ['false', 'true'],
+      level: ['1', '2'],
+    });
+    const disabledAnalyzer = new ComponentAnalyzer(project.createSourceFile('./button2.tsx', code));
+    disabledAnalyzer.analyze();
+    expect(disabledAnalyzer.getPropValues()).toEqual({});
+  });
+
+  it('should leave out every api declared in a file marked with ignore-file', () => {
+    const project = new Project({
+      compilerOptions: {
+        target: ts.ScriptTarget.ESNext,
+        module: ts.ModuleKind.ESNext,
+        jsx: ts.JsxEmit.Preserve,
+        moduleResolution: ts.ModuleResolutionKind.NodeNext,
+      },
+    });
+    project.createSourceFile('./fake/ignore/internal.ts', [
+      `/* vc-api-coverage ignore-file */`,
+      `export const internalProps = {`,
+      `  theme: String,`,
+      `};`,
+    ].join('\n'));
+    const sourceFile = project.createSourceFile('./fake/ignore/Button.tsx', [
+      `import { defineComponent } from 'vue';`,
+      `import { internalProps } from '../ignore/internal';`,
+      `export default defineComponent({`,
+      `  props: { ...internalProps, size: String },`,
+      `});`,
+    ].join('\n'));
+    const analyzer = new ComponentAnalyzer(sourceFile);
+    expect(analyzer.analyze().props).toStrictEqual(['size']);
+    expect(analyzer.getIgnored().props).toStrictEqual(['theme']);
+  });
+
+  it('should count vue internal props when the internal list is replaced', () => {
+    const project = new Project({
+      compilerOptions: {
+        target: ts.ScriptTarget.ESNext,
+        module: ts.ModuleKind.ESNext,
+        jsx: ts.JsxEmit.Preserve,
+        moduleResolution: ts.ModuleResolutionKind.NodeNext,
+      },
+    });
+    const code = `
+        import { defineComponent } from 'vue';
+
+        export default defineComponent({
+            name: 'Button',
+            props: {
+                size: String,
+            },
+        });
+    `;
+    const sourceFile = project.createSourceFile('./button.tsx', code);
+    const result = new ComponentAnalyzer(sourceFile, { internalProps: ['key', 'ref'] }).analyze();
+    expect(result.props).toEqual(expect.arrayContaining(['size', 'class', 'style', 'onVnodeMounted']));
+    expect(result.props).not.toContain('key');
+  });
 });
\ No newline at end of file
@@ -1,6 +1,9 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import TestUnitAnalyzer from '../../src/analyzer/UnitTestAnalyzer'
+import ComponentAnalyzer from '../../src/analyzer/ComponentAnalyzer'
+import { getSfcScriptContent } from '../../src/common/utils'
 import { Project } from 'ts-morph'
+import path from 'path'
 
 describe('test-units-analyzer', () => {
     beforeEach(() => {
@@ -253,7 +256,8 @@ describe('test-units-analyzer', () => {
             })
         `)
         const res = new TestUnitAnalyzer(sourceFile, project).analyze()
-        expect(res[`./ButtonModel.tsx`].props!.sort()).toEqual(['value', 'visible', 'onUpdate:value', 'onUpdate:visible'].sort())
+        expect(res[`./ButtonModel.tsx`].props!.sort()).toEqual(['modelValue', 'visible'].sort())
+        expect(res[`./ButtonModel.tsx`].emits!.sort()).toEqual(['onUpdate:modelValue', 'onUpdate:visible'].sort())
     })
 
     it('should analyze in test units with muti components', () => {
@@ -356,4 +360,252 @@ describe('test-units-analyzer', () => {
         console.log(res)
         expect(res[`/fake/Menu.tsx`].props!.sort()).toEqual(['shape'].sort())
     })
-})
\ No newline at end of file
+
+    it('should analyze inline templates with the template parser', () => {
+        const fakeTestFilePath = './template-analyzer.test.tsx'
+        const project = new Project()
+        const sourceFile = project.createSourceFile(fakeTestFilePath, `
+            import List from './List.tsx';
+            import Button from './Button.tsx';
+            import { describe, it, expect } from 'vitest';
+            import { mount } from '@vue/test-utils'
+
+            describe('components', () => {
+                it('should render correctly', () => {
+                    mount({
+                        template: \`
+                            <List
+                                :items="items.filter(item => item.count > 1)"
+                                show-header
+                                v-model:selected="selected"
+                                @row-click="onRowClick"
+                                #row="{ item }"
+                            >
+                                <my-button type="primary">
+                                    <my-button :loading="true"><template #icon>+</template></my-button>
+                                </my-button>
+                            </List>
+                        \`,
+                        components: {
+                            List,
+                            'my-button': Button,
+                        }
+                    })
+                    expect(1).toBe(1)
+                })
+            })
+        `)
+        const res = new TestUnitAnalyzer(sourceFile, project).analyze()
+        expect(res[`./List.tsx`].props!.sort()).toEqual(['items', 'showHeader', 'selected'].sort())
+        expect(res[`./List.tsx`].emits!.sort()).toEqual(['onRowClick', 'onUpdate:selected'].sort())
+        expect(res[`./List.tsx`].slots).toEqual(['row'])
+        expect(res[`./Button.tsx`].props!.sort()).toEqual(['type', 'loading'].sort())
+        expect(res[`./Button.tsx`].slots!.sort()).toEqual(['default', 'icon'].sort())
+    })
+
+    it('should attribute each API usage to its test case and location', () => {
+        const fakeTestFilePath = '/fake/attribution.test.tsx'
+        const project = new Project({
+            useInMemoryFileSystem: true
+        })
+        const sourceFile = project.createSourceFile(fakeTestFilePath, [
+            `import Button from './Button.tsx';`,
+            `import { describe, it, expect } from 'vitest';`,
+            `import { mount } from '@vue/test-utils'`,
+            `describe('Button', () => {`,
+            `    describe('size', () => {`,
+            `        it('renders small', () => {`,
+            `            mount(Button, { props: { size: 'small' } })`,
+            `            expect(1).toBe(1)`,
+            `        })`,
+            `    })`,
+            `    it('emits click', () => {`,
+            `        mount({ template: '<Button size="large" @click="onClick" />', components: { Button } })`,
+            `        expect(1).toBe(1)`,
+            `    })`,
+            `})`,
+        ].join('\n'))
+        const analyzer = new TestUnitAnalyzer(sourceFile, project)
+        analyzer.analyze()
+        const usages = analyzer.getUsages()['./Button.tsx']
+        expect(usages.props!.size).toEqual([
+            { file: '/fake/attribution.test.tsx', title: ['Button', 'size', 'renders small'], line: 7, column: 38 },
+            { file: '/fake/attribution.test.tsx', title: ['Button', 'emits click'], line: 12, column: 36 },
+        ])
+        expect(usages.emits!.onClick).toEqual([
+            { file: '/fake/attribution.test.tsx', title: ['Button', 'emits click'], line: 12, column: 49 },
+        ])
+    })
+
+    it('should record literal values passed to props when prop values are enabled', () => {
+        const fakeTestFilePath = '/fake/values.test.tsx'
+        const project = new Project({
+            useInMemoryFileSystem: true
+        })
+        const sourceFile = project.createSourceFile(fakeTestFilePath, [
+            `import Button from './Button.tsx';`,
+            `import { describe, it, expect } from 'vitest';`,
+            `import { mount } from '@vue/test-utils'`,
+            `enum Kind { Primary = 'primary' }`,
+            `describe('Button', () => {`,
+            `    it('renders variants', () => {`,
+            `        const size = 'medium'`,
+            `        let label = 'text'`,
+            `        mount(() => <Button size="large" kind={Kind.Primary} disabled label={label} />)`,
+            `        mount(Button, { props: { size, loading: false } })`,
+            `        mount({ template: '<Button size="small" :count="2" block />', components: { Button } })`,
+            `        expect(1).toBe(1)`,
+            `    })`,
+            `})`,
+        ].join('\n'))
+        const analyzer = new TestUnitAnalyzer(sourceFile, project, { propValues: true })
+        analyzer.analyze()
+        expect(analyzer.getPropValues()).toEqual({
+            './Button.tsx': {
+                size: ['medium', 'small', 'large'],
+                kind: ['primary'],
+                disabled: ['true'],
+                loading: ['false'],
+                count: ['2'],
+                block: ['true'],
+            },
+        })
+        const disabledAnalyzer = new TestUnitAnalyzer(sourceFile, project)
+        disabledAnalyzer.analyze()
+        expect(disabledAnalyzer.getPropValues()).toEqual({})
+    })
+
+    it('should record scoped slot parameters read by test slot functions', () => {
+        const fakeTestFilePath = '/fake/slots.test.tsx'
+        const project = new Project({
+            useInMemoryFileSystem: true
+        })
+        const sourceFile = project.createSourceFile(fakeTestFilePath, [
+            `import Table from './Table.tsx';`,
+            `import { describe, it, expect } from 'vitest';`,
+            `import { mount } from '@vue/test-utils'`,
+            `describe('Table', () => {`,
+            `    it('renders slots', () => {`,
+            `        mount(() => <Table v-slots={{ row: ({ item, index: i }) => <span>{item}{i}</span> }} />)`,
+            `        mount(() => <Table>{{ header: (scope) => { const { title } = scope; return scope.sorted ? title : '' } }}</Table>)`,
+            `        mount(() => <Table>{({ data }) => data}</Table>)`,
+            `        mount(Table, { slots: { footer: ({ total }) => total } })`,
+            `        mount({ template: '<Table><template #empty="{ text, ...rest }">{{ text }}</template><template #cell="scope">{{ scope.value }}</template></Table>', components: { Table } })`,
+            `        expect(1).toBe(1)`,
+            `    })`,
+            `})`,
+        ].join('\n'))
+        const analyzer = new TestUnitAnalyzer(sourceFile, project)
+        analyzer.analyze()
+        expect(analyzer.getSlotParams()).toEqual({
+            './Table.tsx': {
+                row: ['item', 'index'],
+                header: ['title', 'sorted'],
+                default: ['data'],
+                footer: ['total'],
+                empty: ['text'],
+                cell: ['value'],
+            },
+        })
+    })
+
+    it('should record nested destructured slot parameters of templates', () => {
+        const project = new Project({
+            useInMemoryFileSystem: true
+        })
+        const sourceFile = project.createSourceFile('/fake/nested-slots.test.tsx', [
+            `import List from './List.tsx';`,
+            `import { describe, it, expect } from 'vitest';`,
+            `import { mount } from '@vue/test-utils'`,
+            `describe('List', () => {`,
+            `    it('renders items', () => {`,
+            `        mount({ template: '<List #default="{ item: { id, name }, index = 0, label: text }">{{ id }}{{ name }}{{ index }}{{ text }}</List>', components: { List } })`,
+            `        expect(1).toBe(1)`,
+            `    })`,
+            `})`,
+        ].join('\n'))
+        const analyzer = new TestUnitAnalyzer(sourceFile, project)
+        analyzer.analyze()
+        expect(analyzer.getSlotParams()).toEqual({
+            './List.tsx': { default: ['item', 'index', 'label'] },
+        })
+    })
+
+    it('should detect exposed members accessed through component instances', () => {
+        const fakeTestFilePath = '/fake/expose.test.tsx'
+        const project = new Project({
+            useInMemoryFileSystem: true
+        })
+        const sourceFile = project.createSourceFile(fakeTestFilePath, [
+            `import { ref } from 'vue';`,
+            `import Button from './Button.tsx';`,
+            `import Input from './Input.tsx';`,
+            `import Form from './Form.tsx';`,
+            `import { describe, it, expect, beforeEach } from 'vitest';`,
+            `import { mount } from '@vue/test-utils'`,
+            `describe('expose', () => {`,
+            `    let wrapper: any`,
+            `    beforeEach(() => {`,
+            `        wrapper = mount(Button)`,
+            `    })`,
+            `    it('focuses', async () => {`,
+            `        const form = mount(Form, { props: {} })`,
+            `        wrapper.vm.focus()`,
+            `        expect((wrapper.vm as any).loading).toBe(false)`,
+            `        expect(form.vm['validate']).toBeDefined()`,
+            `        expect(wrapper.vm.$el).toBeDefined()`,
+            `        form.findComponent(Input).vm.select()`,
+            `    })`,
+            `    it('uses template refs', () => {`,
+            `        const inputRef = ref()`,
+            `        const buttonRef = ref<InstanceType<typeof Button>>()`,
+            `        mount(() => <Input ref={inputRef} />)`,
+            `        inputRef.value.clear()`,
+            `        buttonRef.value?.blur()`,
+            `        expect(1).toBe(1)`,
+            `    })`,
+            `})`,
+        ].join('\n'))
+        const analyzer = new TestUnitAnalyzer(sourceFile, project)
+        const res = analyzer.analyze()
+        expect(res['./Button.tsx'].exposes).toEqual(['focus', 'loading', 'blur'])
+        expect(res['./Form.tsx'].exposes).toEqual(['validate'])
+        expect(res['./Input.tsx'].exposes).toEqual(['select', 'clear'])
+        expect(analyzer.getUsages()['./Button.tsx'].exposes!.focus).toEqual([
+            { file: '/fake/expose.test.tsx', title: ['expose', 'focuses'], line: 14, column: 20 },
+        ])
+    })
+
+    it('should map v-model without argument to modelValue of defineModel in templates and jsx', () => {
+        const { content } = getSfcScriptContent(`
+            <script setup>
+            const modelValue = defineModel();
+            </script>
+        `)
+        const component = new ComponentAnalyzer(new Project().createSourceFile('./Input.vue.ts', content)).analyze()
+        const usages = [
+            `mount({ template: '<Input v-model="value" />', components: { Input } })`,
+            `render(() => <Input v-model={value} />, {})`,
+        ]
+        for (const usage of usages) {
+            const project = new Project()
+            const sourceFile = project.createSourceFile('./model.test.tsx', `
+                import Input from './Input.vue';
+                import { describe, it, expect } from 'vitest';
+                import { mount } from '@vue/test-utils'
+                import { render } from '@testing-library/vue'
+
+                describe('components', () => {
+                    it('should update the model', () => {
+                        ${usage}
+                        expect(1).toBe(1)
+                    })
+                })
+            `)
+            const res = new TestUnitAnalyzer(sourceFile, project).analyze()
+            const input = res[path.resolve('Input.vue')]
+            expect(input.props).toEqual(component.props)
+            expect(input.emits).toEqual(component.emits)
+        }
+    })
+})
@@ -0,0 +1,293 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { TestSpecification } from 'vitest/node'
+import VcCoverageReporter from '../src/ApiReporter'
+import ComponentAnalyzer from '../src/analyzer/ComponentAnalyzer'
+import TestUnitAnalyzer from '../src/analyzer/UnitTestAnalyzer'
+import { mergeCoverageData } from '../src/common/merge'
+
+describe('api-reporter', () => {
+  let tempDir: string | undefined
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    if (tempDir) {
+      await fs.rm(tempDir, { recursive: true, force: true })
+      tempDir = undefined
+    }
+  })
+
+  it('should merge runtime data with static unit data', () => {
+    const reporter = new VcCoverageReporter()
+    const compData = {
+      '/fake/Button.tsx': {
+        props: ['size', 'disabled', 'loading'],
+        emits: ['onClick'],
+        slots: ['default'],
+        exposes: ['focus'],
+      },
+    }
+    const unitData = {
+      '/fake/Button.tsx': { props: ['size'], emits: [], slots: ['default'], exposes: [] },
+    }
+    const runtimeData = {
+      '/fake/Button.tsx': { props: ['size', 'disabled'], emits: ['onClick'], slots: [], exposes: [] },
+    }
+    const [data] = reporter.mergeData(unitData, compData, runtimeData)
+    expect(data.props.details).toEqual([
+      { name: 'size', covered: true, sources: ['static', 'runtime'] },
+      { name: 'disabled', covered: true, sources: ['runtime'] },
+      { name: 'loading', covered: false, sources: [] },
+    ])
+    expect(data.emits.covered).toBe(1)
+    expect(data.slots.details).toEqual([{ name: 'default', covered: true, sources: ['static'] }])
+    expect(data.covered).toBe(4)
+    expect(data.total).toBe(6)
+  })
+
+  it('should cover function props named onXxx with the events passed in tests', () => {
+    const reporter = new VcCoverageReporter()
+    const compData = {
+      '/fake/Menu.tsx': { props: ['onSelect', 'onOpen', 'onClose'], emits: ['onClick'], slots: [], exposes: [] },
+    }
+    const unitData = {
+      '/fake/Menu.tsx': { props: [], emits: ['onSelect', 'onClick'], slots: [], exposes: [] },
+    }
+    const runtimeData = {
+      '/fake/Menu.tsx': { props: [], emits: ['onOpen'], slots: [], exposes: [] },
+    }
+    const usage = { file: '/fake/Menu.spec.tsx', title: ['Menu', 'selects'], line: 5, column: 12 }
+    const [data] = reporter.mergeData(unitData, compData, runtimeData, { '/fake/Menu.tsx': { emits: { onSelect: [usage] } } })
+    expect(data.props.details).toEqual([
+      { name: 'onSelect', covered: true, sources: ['static'], tests: [usage] },
+      { name: 'onOpen', covered: true, sources: ['runtime'] },
+      { name: 'onClose', covered: false, sources: [] },
+    ])
+    expect(data.emits.covered).toBe(1)
+  })
+
+  it('should attach the covering tests to each API detail', () => {
+    const reporter = new VcCoverageReporter()
+    const compData = {
+      '/fake/Button.tsx': { props: ['size', 'loading'], emits: [], slots: [], exposes: [] },
+    }
+    const unitData = {
+      '/fake/Button.tsx': { props: ['size'], emits: [], slots: [], exposes: [] },
+    }
+    const usage = { file: '/fake/Button.spec.tsx', title: ['Button', 'renders small'], line: 7, column: 38 }
+    const [data] = reporter.mergeData(unitData, compData, {}, { '/fake/Button.tsx': { props: { size: [usage] } } })
+    expect(data.props.details).toEqual([
+      { name: 'size', covered: true, sources: ['static'], tests: [usage] },
+      { name: 'loading', covered: false, sources: [] },
+    ])
+  })
+
+  it('should attach the declaring location to each API detail', () => {
+    const reporter = new VcCoverageReporter()
+    const compData = {
+      '/fake/Button.tsx': { props: ['loading'], emits: [], slots: [], exposes: [] },
+    }
+    const location = { file: '/fake/common/props.ts', line: 2, column: 3 }
+    const [data] = reporter.mergeData({}, compData, {}, {}, { '/fake/Button.tsx': { props: { loading: location } } })
+    expect(data.props.details).toEqual([{ name: 'loading', covered: false, sources: [], location }])
+  })
+
+  it('should list ignored apis separately from the coverage details', () => {
+    const reporter = new VcCoverageReporter()
+    const compData = {
+      '/fake/Button.tsx': { props: ['size'], emits: [], slots: [], exposes: [] },
+    }
+    const location = { file: '/fake/Button.tsx', line: 4, column: 5 }
+    const [data] = reporter.mergeData({}, compData, {}, {}, { '/fake/Button.tsx': { props: { legacySize: location } } }, {
+      '/fake/Button.tsx': { props: ['legacySize'], emits: [], slots: [], exposes: [] },
+    })
+    expect(data.props).toEqual({
+      total: 1,
+      covered: 0,
+      details: [{ name: 'size', covered: false, sources: [] }],
+      ignored: [{ name: 'legacySize', location }],
+    })
+    expect(data.emits.ignored).toBeUndefined()
+  })
+
+  it('should count, exclude or separate deprecated apis according to the deprecated option', () => {
+    const compData = {
+      '/fake/Button.tsx': { props: ['size', 'legacySize'], emits: [], slots: [], exposes: [] },
+    }
+    const usage = { file: '/fake/Button.spec.tsx', title: ['Button', 'legacy'], line: 3, column: 5 }
+    const usages = { '/fake/Button.tsx': { props: { legacySize: [usage] } } }
+    const unitData = { '/fake/Button.tsx': { props: ['legacySize'], emits: [], slots: [], exposes: [] } }
+    const deprecated = { '/fake/Button.tsx': { props: ['legacySize'] } }
+    const legacySize = { name: 'legacySize', covered: true, sources: ['static'], tests: [usage], deprecated: true }
+
+    const [counted] = new VcCoverageReporter().mergeData(unitData, compData, {}, usages, {}, {}, deprecated)
+    expect(counted.props).toEqual({
+      total: 2,
+      covered: 1,
+      details: [{ name: 'size', covered: false, sources: [] }, legacySize],
+    })
+
+    const [separated] = new VcCoverageReporter({ deprecated: 'separate' }).mergeData(unitData, compData, {}, usages, {}, {}, deprecated)
+    expect(separated.props).toEqual({
+      total: 1,
+      covered: 0,
+      details: [{ name: 'size', covered: false, sources: [] }],
+      deprecated: [legacySize],
+    })
+
+    const [excluded] = new VcCoverageReporter({ deprecated: 'exclude' }).mergeData(unitData, compData, {}, usages, {}, {}, deprecated)
+    expect(excluded.props).toEqual({
+      total: 1,
+      covered: 0,
+      details: [{ name: 'size', covered: false, sources: [] }],
+    })
+  })
+
+  it('should attach per value coverage to props with literal values', () => {
+    const reporter = new VcCoverageReporter({ propValues: true })
+    const compData = {
+      '/fake/Button.tsx': { props: ['size', 'label'], emits: [], slots: [], exposes: [] },
+    }
+    const unitData = { '/fake/Button.tsx': { props: ['size'], emits: [], slots: [], exposes: [] } }
+    const data = reporter.mergeData(unitData, compData)
+    reporter.analyzeValues(data, { '/fake/Button.tsx': { size: ['small', 'medium', 'large'] } }, { '/fake/Button.tsx': { size: ['small', 'medium'] } })
+    expect(data[0].props.details).toEqual([
+      {
+        name: 'size',
+        covered: true,
+        sources: ['static'],
+        values: [{ value: 'small', covered: true }, { value: 'medium', covered: true }, { value: 'large', covered: false }],
+      },
+      { name: 'label', covered: false, sources: [] },
+    ])
+    expect(data[0].props).toMatchObject({ total: 2, covered: 1 })
+  })
+
+  it('should attach parameter coverage to scoped slots', () => {
+    const reporter = new VcCoverageReporter()
+    const compData = {
+      '/fake/Table.tsx': { props: [], emits: [], slots: ['row', 'default'], exposes: [] },
+    }
+    const unitData = { '/fake/Table.tsx': { props: [], emits: [], slots: ['row'], exposes: [] } }
+    const data = reporter.mergeData(unitData, compData)
+    reporter.analyzeSlotParams(data, { '/fake/Table.tsx': { row: ['item', 'index'] } }, { '/fake/Table.tsx': { row: ['item'] } })
+    expect(data[0].slots.details).toEqual([
+      { name: 'row', covered: true, sources: ['static'], params: [{ name: 'item', covered: true }, { name: 'index', covered: false }] },
+      { name: 'default', covered: false, sources: [] },
+    ])
+    expect(data[0].slots).toMatchObject({ total: 2, covered: 1 })
+  })
+
+  it('should include components only found at runtime', () => {
+    const reporter = new VcCoverageReporter()
+    const compData = {
+      '/fake/Input.tsx': { props: ['value'], emits: [], slots: [], exposes: [] },
+    }
+    const runtimeData = {
+      '/fake/Input.tsx': { props: ['value'], emits: [], slots: [], exposes: [] },
+    }
+    const res = reporter.mergeData({}, compData, runtimeData)
+    expect(res.map(item => item.file)).toEqual(['/fake/Input.tsx'])
+    expect(res[0].props.covered).toBe(1)
+  })
+
+  it('should count exposes covered by the istanbul coverage in the component totals', () => {
+    const reporter = new VcCoverageReporter()
+    const compData = {
+      '/fake/Input.tsx': { props: [], emits: [], slots: [], exposes: ['focus', 'blur'] },
+    }
+    const unitData = {
+      '/fake/Input.tsx': { props: [], emits: [], slots: [], exposes: [] },
+    }
+    const data = reporter.mergeData(unitData, compData)
+    reporter['coverageData'] = data
+    reporter.analyzeFromCoverage({ data: { '/fake/Input.tsx': { fnMap: { 0: { name: 'focus' } }, f: { 0: 1 } } } })
+    expect(data[0].exposes).toMatchObject({ total: 2, covered: 1 })
+    expect(data[0]).toMatchObject({ total: 2, covered: 1 })
+    const [merged] = mergeCoverageData([data])
+    expect(merged).toMatchObject({ total: data[0].total, covered: data[0].covered })
+  })
+
+  it('should report included components without tests at 0%', () => {
+    const reporter = new VcCoverageReporter({ include: 'test/fixtures/include/**/*' })
+    reporter.analyzerComponent()
+    const res = reporter.mergeData({}, reporter['compData'])
+    expect(res.map(item => item.name)).toEqual(['include/Untested.tsx'])
+    expect(res[0].props.details).toEqual([{ name: 'title', covered: false, sources: [] }])
+    expect(res[0].emits.details).toEqual([{ name: 'onClose', covered: false, sources: [] }])
+    expect(res[0].covered).toBe(0)
+  })
+
+  it('should apply the default exclude only to components found through include', () => {
+    const tested = path.resolve('src/__tests__/Button.tsx')
+    expect(new VcCoverageReporter().isExcluded(tested)).toBe(false)
+    expect(new VcCoverageReporter({ include: 'src/**/*' }).isExcluded(tested)).toBe(false)
+    expect(new VcCoverageReporter({ exclude: '**/__tests__/**' }).isExcluded(tested)).toBe(true)
+    const included = new VcCoverageReporter({ include: 'test/fixtures/include/**/*' }).getIncludedComponents()
+    expect(included.map(file => path.basename(file)).sort()).toEqual(['Untested.tsx', 'helper.tsx'])
+  })
+
+  it('should refresh changed files and drop stale contributions between watch reruns', async () => {
+    // 组件需要能解析到项目中的 vue，因此临时目录放在 fixtures 下
+    tempDir = await fs.mkdtemp(path.resolve('test/fixtures/watch-'))
+    const component = path.join(tempDir, 'Button.tsx')
+    const spec = path.join(tempDir, 'Button.spec.tsx')
+    const writeComponent = (props: string[]) => fs.writeFile(component, `import { defineComponent } from 'vue'
+export default defineComponent({
+  props: { ${props.map(prop => `${prop}: String`).join(', ')} },
+  render() { return null },
+})
+`)
+    const writeSpec = (prop: string) => fs.writeFile(spec, `import { mount } from '@vue/test-utils'
+import { it, expect } from 'vitest'
+import Button from './Button'
+it('renders', () => { expect(mount(Button, { props: { ${prop}: 'a' } }).exists()).toBe(true) })
+`)
+    const run = (specs: string[]) => {
+      reporter.onTestRunStart(specs.map(moduleId => ({ moduleId }) as TestSpecification))
+      for (const file of specs) reporter.analyzeTestFile(file)
+      return reporter.report()
+    }
+    const reporter = new VcCoverageReporter({ format: [], historySize: 0 })
+
+    await writeComponent(['size', 'disabled'])
+    await writeSpec('size')
+    let [data] = await run([spec])
+    expect(data.props.details.map(d => [d.name, d.covered])).toEqual([['size', true], ['disabled', false]])
+
+    await writeComponent(['size', 'disabled', 'loading'])
+    await writeSpec('disabled')
+    ;[data] = await run([spec])
+    expect(data.props.details.map(d => [d.name, d.covered])).toEqual([['size', false], ['disabled', true], ['loading', false]])
+
+    await fs.rm(spec)
+    expect(await run([])).toEqual([])
+  })
+
+  it('should reuse cached analysis results of unchanged files', async () => {
+    tempDir = await fs.mkdtemp(path.resolve('test/fixtures/cache-'))
+    const options = { format: [], historySize: 0, cacheDir: tempDir }
+    const spec = path.resolve('test/fixtures/analyze/Button.spec.tsx')
+    const run = (reporter: VcCoverageReporter) => {
+      reporter.analyzeTestFile(spec)
+      return reporter.report()
+    }
+    const expected = await run(new VcCoverageReporter(options))
+
+    const analyzeComponent = vi.spyOn(ComponentAnalyzer.prototype, 'analyze')
+    const analyzeTest = vi.spyOn(TestUnitAnalyzer.prototype, 'analyze')
+    expect(await run(new VcCoverageReporter(options))).toEqual(expected)
+    expect(analyzeComponent).not.toHaveBeenCalled()
+    expect(analyzeTest).not.toHaveBeenCalled()
+  })
+
+  it('should resolve components imported through vite aliases', async () => {
+    const reporter = new VcCoverageReporter({ format: [], historySize: 0, cache: false })
+    reporter.addAliases([{ find: '@fixtures', replacement: path.resolve('test/fixtures') }])
+    reporter.analyzeTestFile(path.resolve('test/fixtures/alias/Button.spec.tsx'))
+    const [data] = await reporter.report()
+    expect(data.file).toBe(path.resolve('test/fixtures/analyze/Button.tsx'))
+    expect(data.props.details).toEqual(expect.arrayContaining([expect.objectContaining({ name: 'disabled', covered: true })]))
+  })
+}) 
\ No newline at end of file
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest'
+import path from 'path'
+import { compareWithBaseline, formatBaselineDiff } from '../../src/common/baseline'
+import { createCoverageData } from '../helpers'
+
+describe('baseline', () => {
+  it('should list regressed, new uncovered and removed apis', () => {
+    const baseline = [
+      createCoverageData('button/Button.tsx', { props: [['size', true], ['disabled', false], ['loading', true]] }),
+      createCoverageData('old/Old.tsx', { props: [['value', true]] }),
+    ]
+    const current = [
+      createCoverageData('button/Button.tsx', { props: [['size', false], ['disabled', false], ['shape', false], ['block', true]] }),
+      createCoverageData('new/New.tsx', { props: [['value', false]] }),
+    ]
+    const diff = compareWithBaseline(current, baseline)
+    expect(diff).toEqual({
+      regressions: [{ component: 'button/Button.tsx', category: 'props', name: 'size' }],
+      newUncovered: [
+        { component: 'button/Button.tsx', category: 'props', name: 'shape' },
+        { component: 'new/New.tsx', category: 'props', name: 'value' },
+      ],
+      removed: [
+        { component: 'button/Button.tsx', category: 'props', name: 'loading' },
+        { component: 'old/Old.tsx', category: 'props', name: 'value' },
+      ],
+    })
+    expect(formatBaselineDiff(diff)).toContain('Compared with baseline: 1 regressed, 2 new without tests, 2 removed\nCovered in baseline but no longer covered:\n  button/Button.tsx props: size')
+  })
+
+  it('should tell apart components with the same name in different directories', () => {
+    const createIndex = (dir: string, covered: boolean) => ({
+      ...createCoverageData('Button/index.tsx', { props: [['size', covered]] }),
+      file: path.resolve(dir, 'Button/index.tsx'),
+    })
+    const diff = compareWithBaseline([createIndex('a', false), createIndex('b', true)], [createIndex('a', true), createIndex('b', false)])
+    expect(diff.regressions).toEqual([{ component: 'Button/index.tsx', category: 'props', name: 'size' }])
+    expect(diff.newUncovered).toEqual([])
+  })
+})
@@ -0,0 +1,30 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { promises as fs } from 'fs'
+import { Project } from 'ts-morph'
+import { getCacheKey, readCache, writeCache } from '../../src/common/cache'
+
+describe('cache', () => {
+  const testCacheDir = 'test-cache-analysis'
+
+  afterEach(async () => {
+    await fs.rm(testCacheDir, { recursive: true, force: true })
+  })
+
+  it('should change the key when the file or any dependency changes', () => {
+    const project = new Project({ useInMemoryFileSystem: true })
+    const button = project.createSourceFile('/src/Button.tsx', `import { size } from './props'`)
+    const props = project.createSourceFile('/src/props.ts', `export const size = String`)
+    const key = getCacheKey('component', [button, props])
+
+    expect(getCacheKey('component', [button, props])).toBe(key)
+    expect(getCacheKey('test', [button, props])).not.toBe(key)
+    props.replaceWithText(`export const size = Number`)
+    expect(getCacheKey('component', [button, props])).not.toBe(key)
+  })
+
+  it('should read back written entries', () => {
+    expect(readCache(testCacheDir, 'missing')).toBeUndefined()
+    writeCache(testCacheDir, 'key', { data: { props: ['size'] } })
+    expect(readCache(testCacheDir, 'key')).toEqual({ data: { props: ['size'] } })
+  })
+}) 
@@ -0,0 +1,56 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { appendHistory, createHistoryEntry, readHistory } from '../../src/common/history'
+import { createCoverageData, createDetails } from '../helpers'
+
+describe('history', () => {
+  const testOutputDir = 'test-coverage-history'
+
+  afterEach(async () => {
+    await fs.rm(testOutputDir, { recursive: true, force: true })
+  })
+
+  it('should summarize totals, categories and components of a run', () => {
+    const entry = createHistoryEntry([
+      createCoverageData('button/Button.tsx', { props: createDetails(1, 2), emits: createDetails(2, 2) }),
+      createCoverageData('input/Input.tsx', { props: createDetails(4, 4), emits: createDetails(1, 2) }),
+    ], new Date('2026-01-01T00:00:00.000Z'))
+    expect(entry).toEqual({
+      timestamp: '2026-01-01T00:00:00.000Z',
+      total: { total: 10, covered: 8 },
+      categories: {
+        props: { total: 6, covered: 5 },
+        emits: { total: 4, covered: 3 },
+        slots: { total: 0, covered: 0 },
+        exposes: { total: 0, covered: 0 },
+      },
+      components: {
+        'src/button/Button.tsx': { total: 4, covered: 3 },
+        'src/input/Input.tsx': { total: 6, covered: 5 },
+      },
+    })
+  })
+
+  it('should tell apart components with the same name in different directories', () => {
+    const entry = createHistoryEntry([
+      { ...createCoverageData('Button/index.tsx', { props: createDetails(1, 2) }), file: path.resolve('a/Button/index.tsx') },
+      { ...createCoverageData('Button/index.tsx', { props: createDetails(2, 2) }), file: path.resolve('b/Button/index.tsx') },
+    ])
+    expect(entry.components).toEqual({
+      'a/Button/index.tsx': { total: 2, covered: 1 },
+      'b/Button/index.tsx': { total: 2, covered: 2 },
+    })
+  })
+
+  it('should append runs to the history file and keep the latest entries', async () => {
+    const createEntry = (day: number) => createHistoryEntry([createCoverageData('button/Button.tsx', { props: createDetails(day, 4) })], new Date(Date.UTC(2026, 0, day)))
+    appendHistory(testOutputDir, createEntry(1), 2)
+    appendHistory(testOutputDir, createEntry(2), 2)
+    const history = appendHistory(testOutputDir, createEntry(3), 2)
+
+    expect(history.map(entry => entry.total.covered)).toEqual([2, 3])
+    expect(readHistory(testOutputDir)).toEqual(history)
+    expect(JSON.parse(await fs.readFile(path.join(testOutputDir, 'api-history.json'), 'utf-8'))).toHaveLength(2)
+  })
+})
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest'
+import path from 'path'
+import { applyIgnoreOptions, getIgnorePatterns } from '../../src/common/ignore'
+
+const emptyData = { props: [], emits: [], slots: [], exposes: [] }
+
+describe('ignore', () => {
+  it('should merge global and matching per-component patterns', () => {
+    const ignore = {
+      props: ['theme'],
+      components: {
+        'src/components/button/**': { props: [/^data-/] },
+        'src/components/input/**': { props: ['size'] },
+      },
+    }
+    expect(getIgnorePatterns(path.resolve('src/components/button/Button.tsx'), 'props', ignore)).toEqual(['theme', /^data-/])
+    expect(getIgnorePatterns(path.resolve('src/components/button/Button.tsx'), 'emits', ignore)).toEqual([])
+  })
+
+  it('should move matching apis to the ignored list', () => {
+    const data = { ...emptyData, props: ['size', 'theme', 'data-testid'], emits: ['onClick'] }
+    const ignored = { ...emptyData, props: ['legacySize'] }
+    const res = applyIgnoreOptions('/project/Button.tsx', data, ignored, { props: ['theme', /^data-/g] })
+    expect(res.data).toEqual({ ...emptyData, props: ['size'], emits: ['onClick'] })
+    expect(res.ignored).toEqual({ ...emptyData, props: ['legacySize', 'theme', 'data-testid'] })
+  })
+}) 
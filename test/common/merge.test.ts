@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import { mergeCoverageData } from '../../src/common/merge'
+import { createCoverageData } from '../helpers'
+
+describe('merge', () => {
+  it('should union covered flags of the same component and recompute totals', () => {
+    const test1 = { file: '/project/src/a.spec.tsx', title: ['a'], line: 1, column: 1 }
+    const test2 = { file: '/project/src/b.spec.tsx', title: ['b'], line: 2, column: 3 }
+    const [button] = mergeCoverageData([
+      [createCoverageData('button/Button.tsx', {
+        props: [
+          { name: 'size', covered: true, sources: ['static'], tests: [test1] },
+          { name: 'disabled', covered: false, sources: [] },
+        ],
+        emits: [{ name: 'onClick', covered: false, sources: [] }],
+      })],
+      [createCoverageData('button/Button.tsx', {
+        props: [
+          { name: 'size', covered: true, sources: ['runtime'], tests: [test2] },
+          { name: 'disabled', covered: true, sources: ['static'], tests: [test1] },
+        ],
+        emits: [{ name: 'onClick', covered: false, sources: [] }],
+      })],
+    ])
+    expect(button.props.details).toEqual([
+      { name: 'size', covered: true, sources: ['static', 'runtime'], tests: [test1, test2] },
+      { name: 'disabled', covered: true, sources: ['static'], tests: [test1] },
+    ])
+    expect(button.props).toMatchObject({ total: 2, covered: 2 })
+    expect(button.emits).toMatchObject({ total: 1, covered: 0 })
+    expect(button).toMatchObject({ total: 3, covered: 2 })
+  })
+
+  it('should merge deprecated apis listed separately without counting them', () => {
+    const test1 = { file: '/project/src/a.spec.tsx', title: ['a'], line: 1, column: 1 }
+    const shard1 = createCoverageData('button/Button.tsx', { props: [{ name: 'size', covered: true }] })
+    shard1.props.deprecated = [{ name: 'legacySize', covered: false, deprecated: true }]
+    const shard2 = createCoverageData('button/Button.tsx', { props: [{ name: 'size', covered: false }] })
+    shard2.props.deprecated = [{ name: 'legacySize', covered: true, tests: [test1], deprecated: true }]
+    const [button] = mergeCoverageData([[shard1], [shard2]])
+    expect(button.props.deprecated).toEqual([{ name: 'legacySize', covered: true, tests: [test1], deprecated: true }])
+    expect(button.props).toMatchObject({ total: 1, covered: 1 })
+  })
+
+  it('should union covered prop values of the shards', () => {
+    const [button] = mergeCoverageData([
+      [createCoverageData('button/Button.tsx', { props: [{ name: 'size', covered: true, values: [{ value: 'small', covered: true }, { value: 'large', covered: false }] }] })],
+      [createCoverageData('button/Button.tsx', { props: [{ name: 'size', covered: true, values: [{ value: 'small', covered: false }, { value: 'large', covered: true }] }] })],
+    ])
+    expect(button.props.details[0].values).toEqual([{ value: 'small', covered: true }, { value: 'large', covered: true }])
+  })
+
+  it('should union covered slot params of the shards', () => {
+    const createTable = (params: Array<{ name: string, covered: boolean }>) => {
+      return createCoverageData('table/Table.tsx', { slots: [{ name: 'row', covered: true, params }] })
+    }
+    const [table] = mergeCoverageData([
+      [createTable([{ name: 'item', covered: true }, { name: 'index', covered: false }])],
+      [createTable([{ name: 'item', covered: false }, { name: 'index', covered: false }])],
+    ])
+    expect(table.slots.details[0].params).toEqual([{ name: 'item', covered: true }, { name: 'index', covered: false }])
+  })
+
+  it('should keep components only found in some of the reports', () => {
+    const res = mergeCoverageData([
+      [createCoverageData('input/Input.tsx', { props: [{ name: 'value', covered: true }] })],
+      [createCoverageData('button/Button.tsx', { props: [{ name: 'size', covered: false }] })],
+    ])
+    expect(res.map(item => item.name)).toEqual(['button/Button.tsx', 'input/Input.tsx'])
+  })
+}) 
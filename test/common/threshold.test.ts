@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest'
+import { checkThresholds, formatThresholdViolation } from '../../src/common/threshold'
+import { createCoverageData, createDetails } from '../helpers'
+
+describe('threshold', () => {
+  const coverageData = [
+    createCoverageData('button/Button.tsx', { props: createDetails(1, 2), emits: createDetails(2, 2) }),
+    createCoverageData('input/Input.tsx', { props: createDetails(4, 4), emits: createDetails(1, 2) }),
+  ]
+
+  it('should check global thresholds against totals', () => {
+    expect(checkThresholds(coverageData, { props: 80, emits: 70, total: 70 })).toEqual([])
+    expect(checkThresholds(coverageData, { props: 90, total: 80 })).toEqual([
+      { component: undefined, pattern: 'global', category: 'props', actual: (5 / 6) * 100, expected: 90 },
+    ])
+  })
+
+  it('should check per-component glob overrides', () => {
+    const violations = checkThresholds(coverageData, {
+      components: {
+        '**/button/**': { props: 100 },
+        '**/input/**': { props: 100, emits: 100 },
+      },
+    })
+    expect(violations.map(v => [v.component, v.category])).toEqual([
+      ['button/Button.tsx', 'props'],
+      ['input/Input.tsx', 'emits'],
+    ])
+    expect(formatThresholdViolation(violations[0])).toBe('props coverage 50.00% does not meet button/Button.tsx (**/button/**) threshold 100%')
+  })
+})
@@ -0,0 +1,63 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { ts } from 'ts-morph'
+import { aliasesToPaths, defaultCompilerOptions, getCompilerOptions, resolvePathAlias } from '../../src/common/tsconfig'
+
+describe('tsconfig', () => {
+  let tempDir: string | undefined
+
+  afterEach(async () => {
+    if (tempDir) {
+      await fs.rm(tempDir, { recursive: true, force: true })
+      tempDir = undefined
+    }
+  })
+
+  it('should use the default compiler options when disabled', () => {
+    expect(getCompilerOptions(false)).toEqual(defaultCompilerOptions)
+  })
+
+  it('should merge the paths of referenced projects', async () => {
+    tempDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'vc-tsconfig-')))
+    await fs.writeFile(path.join(tempDir, 'tsconfig.json'), JSON.stringify({
+      files: [],
+      references: [{ path: './tsconfig.app.json' }, { path: './packages/ui' }],
+    }))
+    await fs.writeFile(path.join(tempDir, 'tsconfig.app.json'), JSON.stringify({
+      compilerOptions: { module: 'ESNext', paths: { '@/*': ['./src/*'] } },
+    }))
+    await fs.mkdir(path.join(tempDir, 'packages/ui'), { recursive: true })
+    await fs.writeFile(path.join(tempDir, 'packages/ui/tsconfig.json'), JSON.stringify({
+      compilerOptions: { baseUrl: '.', paths: { '@ui/*': ['lib/*'] } },
+    }))
+
+    const options = getCompilerOptions(path.join(tempDir, 'tsconfig.json'))
+    expect(options.paths).toEqual({
+      '@/*': [path.join(tempDir, 'src/*')],
+      '@ui/*': [path.join(tempDir, 'packages/ui/lib/*')],
+    })
+    expect(options.moduleResolution).toBe(ts.ModuleResolutionKind.Bundler)
+  })
+
+  it('should convert vite aliases pointing at directories to paths', () => {
+    const paths = aliasesToPaths([
+      { find: '@', replacement: '/project/src' },
+      { find: 'vue', replacement: 'vue/dist/vue.esm-bundler.js' },
+      { find: /^~(.*)/, replacement: '$1' },
+    ])
+    expect(paths).toEqual({ '@': ['/project/src'], '@/*': ['/project/src/*'] })
+    expect(aliasesToPaths({ '#utils/': './src/utils/' }, '/project')).toEqual({
+      '#utils': ['/project/src/utils'],
+      '#utils/*': ['/project/src/utils/*'],
+    })
+  })
+
+  it('should resolve .vue modules through paths', () => {
+    const options = { paths: { '@fixtures/*': [path.resolve('test/fixtures/*')] } }
+    expect(resolvePathAlias('@fixtures/include/Untested.tsx', options)).toBe(path.resolve('test/fixtures/include/Untested.tsx'))
+    expect(resolvePathAlias('@fixtures/include/Missing.vue', options)).toBeUndefined()
+    expect(resolvePathAlias('@other/Button.vue', options)).toBeUndefined()
+  })
+}) 
@@ -0,0 +1,12 @@
+import { mount } from '@vue/test-utils';
+import { it, expect } from 'vitest';
+import Button from '@fixtures/analyze/Button';
+
+it('renders through an alias', () => {
+  const wrapper = mount(Button, {
+    props: {
+      disabled: true,
+    },
+  });
+  expect(wrapper.exists()).toBe(true);
+});
@@ -0,0 +1,13 @@
+import { mount } from '@vue/test-utils';
+import { it, expect } from 'vitest';
+import Button from './Button';
+
+it('renders with size', () => {
+  const wrapper = mount(Button, {
+    props: {
+      size: 'small',
+      onClick: () => {},
+    },
+  });
+  expect(wrapper.exists()).toBe(true);
+});
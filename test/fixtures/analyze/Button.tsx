@@ -0,0 +1,13 @@
+import { defineComponent } from 'vue';
+
+export default defineComponent({
+  name: 'Button',
+  props: {
+    size: String,
+    disabled: Boolean,
+  },
+  emits: ['click'],
+  render() {
+    return <button disabled={this.disabled} onClick={() => this.$emit('click')}>{this.$slots.default?.()}</button>;
+  },
+});
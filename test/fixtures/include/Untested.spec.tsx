@@ -0,0 +1,5 @@
+import { it, expect } from 'vitest';
+
+it('is excluded from component discovery', () => {
+  expect(1).toBe(1);
+});
@@ -0,0 +1,12 @@
+import { defineComponent } from 'vue';
+
+export default defineComponent({
+  name: 'Untested',
+  props: {
+    title: String,
+  },
+  emits: ['close'],
+  render() {
+    return <div>{this.title}</div>;
+  },
+});
@@ -0,0 +1 @@
+export const renderIcon = (name: string) => <i class={`icon-${name}`} />;
@@ -0,0 +1,9 @@
+import { mount } from '@vue/test-utils';
+import { it, expect } from 'vitest';
+import Button from './Button';
+
+it('emits click', async () => {
+  const wrapper = mount(Button, { props: { size: 'small' } });
+  await wrapper.trigger('click');
+  expect(wrapper.emitted('click')).toHaveLength(1);
+});
@@ -0,0 +1,13 @@
+import { defineComponent, h } from 'vue';
+
+export default defineComponent({
+  name: 'Button',
+  props: {
+    size: String,
+    disabled: Boolean,
+  },
+  emits: ['click'],
+  setup(props, { emit, slots }) {
+    return () => h('button', { disabled: props.disabled, onClick: () => emit('click') }, slots.default?.());
+  },
+});
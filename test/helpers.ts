@@ -0,0 +1,35 @@
+import path from 'path'
+import type { VcCoverageCategory, VcCoverageData, VcCoverageDetail } from '../src/types'
+
+type DetailInput = VcCoverageDetail | [name: string, covered: boolean]
+
+/**
+ * Build the coverage data of a component, totals are counted from the given details
+ */
+export function createCoverageData(name: string, apis: Partial<Record<VcCoverageCategory, DetailInput[]>> = {}): VcCoverageData {
+  const count = (inputs: DetailInput[] = []) => {
+    const details = inputs.map(input => Array.isArray(input) ? { name: input[0], covered: input[1] } : input)
+    return { total: details.length, covered: details.filter(detail => detail.covered).length, details }
+  }
+  const props = count(apis.props)
+  const emits = count(apis.emits)
+  const slots = count(apis.slots)
+  const exposes = count(apis.exposes)
+  return {
+    name,
+    file: path.resolve('src', name),
+    total: props.total + emits.total + slots.total + exposes.total,
+    covered: props.covered + emits.covered + slots.covered + exposes.covered,
+    props,
+    emits,
+    slots,
+    exposes,
+  }
+}
+
+/**
+ * Build `total` details of which the first `covered` are covered
+ */
+export function createDetails(covered: number, total: number): VcCoverageDetail[] {
+  return Array.from({ length: total }, (_, index) => ({ name: `api${index}`, covered: index < covered }))
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { existsSync, promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { main } from '../src/main'
+import { createCoverageData } from './helpers'
+
+describe('main', () => {
+  let tempDir: string | undefined
+
+  afterEach(async () => {
+    process.exitCode = undefined
+    if (tempDir) {
+      await fs.rm(tempDir, { recursive: true, force: true })
+      tempDir = undefined
+    }
+  })
+
+  it('should write the default reports when --format is not given', async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'vc-cli-'))
+    await main([
+      'analyze',
+      '--tests', 'test/fixtures/analyze/*.spec.tsx',
+      '--components', 'test/fixtures/analyze/*.tsx',
+      '--output-dir', tempDir,
+    ])
+    expect(process.exitCode).toBeUndefined()
+    expect(existsSync(path.join(tempDir, 'index.html'))).toBe(true)
+    expect(existsSync(path.join(tempDir, 'coverage.json'))).toBe(true)
+  })
+
+  it('should write the default reports when merging without --format', async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'vc-cli-'))
+    const component = createCoverageData('button/Button.tsx', { props: [['size', true]] })
+    await fs.writeFile(path.join(tempDir, 'shard.json'), JSON.stringify({ components: [component] }))
+    const outputDir = path.join(tempDir, 'merged')
+    await main(['merge', path.join(tempDir, 'shard.json'), '--output-dir', outputDir])
+    expect(process.exitCode).toBeUndefined()
+    expect(existsSync(path.join(outputDir, 'index.html'))).toBe(true)
+    expect(existsSync(path.join(outputDir, 'coverage.json'))).toBe(true)
+  })
+}) 
\ No newline at end of file
@@ -0,0 +1,40 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { mergeCoverageReports } from '../src/merge'
+import { createCoverageData } from './helpers'
+
+describe('mergeCoverageReports', () => {
+  let tempDir: string | undefined
+
+  afterEach(async () => {
+    if (tempDir) {
+      await fs.rm(tempDir, { recursive: true, force: true })
+      tempDir = undefined
+    }
+  })
+
+  it('should merge coverage.json files of sharded runs and regenerate the json report', async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'vc-merge-'))
+    for (const [index, [size, disabled]] of [[true, false], [false, true]].entries()) {
+      const shard = createCoverageData('button/Button.tsx', { props: [['size', size], ['disabled', disabled]] })
+      await fs.mkdir(path.join(tempDir, `shard-${index}`))
+      await fs.writeFile(path.join(tempDir, `shard-${index}`, 'coverage.json'), JSON.stringify({ components: [shard] }))
+    }
+    const outputDir = path.join(tempDir, 'merged')
+    const res = await mergeCoverageReports({
+      reports: path.join(tempDir, 'shard-*/coverage.json'),
+      format: ['json'],
+      outputDir,
+      historySize: 0,
+    })
+    expect(res[0]).toMatchObject({ total: 2, covered: 2 })
+    const json = JSON.parse(await fs.readFile(path.join(outputDir, 'coverage.json'), 'utf-8'))
+    expect(json.summary).toMatchObject({ totalProps: 2, coveredProps: 2 })
+  })
+
+  it('should fail when no reports match', async () => {
+    await expect(mergeCoverageReports({ reports: 'missing/**/coverage.json', format: [] })).rejects.toThrow('No coverage reports found')
+  })
+}) 
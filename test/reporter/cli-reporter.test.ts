@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest'
-import { generateCliReport } from '../../src/reporter/CliReporter'
-import type { VcCoverageData } from '../../src/types'
+import { generateCliDelta, generateCliDeprecated, generateCliReport } from '../../src/reporter/CliReporter'
+import type { VcCoverageData, VcHistoryEntry } from '../../src/types'
 
 describe('cli-reporter', () => {
   it('should generate CLI report with full coverage component', () => {
@@ -17,6 +17,11 @@ describe('cli-reporter', () => {
           { name: 'count', covered: true }
         ]
       },
+      emits: {
+        total: 0,
+        covered: 0,
+        details: []
+      },
       slots: {
         total: 2,
         covered: 2,
@@ -54,6 +59,14 @@ describe('cli-reporter', () => {
           { name: 'count', covered: false }
         ]
       },
+      emits: {
+        total: 2,
+        covered: 1,
+        details: [
+          { name: 'onChange', covered: true },
+          { name: 'onSubmit', covered: false }
+        ]
+      },
       slots: {
         total: 2,
         covered: 1,
@@ -76,6 +89,7 @@ describe('cli-reporter', () => {
     expect(report).toContain('MyComponent.vue')
     expect(report).toContain('1/2')
     expect(report).toContain('count')
+    expect(report).toContain('onSubmit')
     expect(report).toContain('header')
   })
 
@@ -93,6 +107,11 @@ describe('cli-reporter', () => {
           { name: 'count', covered: false }
         ]
       },
+      emits: {
+        total: 0,
+        covered: 0,
+        details: []
+      },
       slots: {
         total: 0,
         covered: 0,
@@ -123,6 +142,11 @@ describe('cli-reporter', () => {
         covered: 0,
         details: []
       },
+      emits: {
+        total: 0,
+        covered: 0,
+        details: []
+      },
       slots: {
         total: 0,
         covered: 0,
@@ -155,6 +179,11 @@ describe('cli-reporter', () => {
           { name: 'prop2', covered: true }
         ]
       },
+      emits: {
+        total: 0,
+        covered: 0,
+        details: []
+      },
       slots: {
         total: 1,
         covered: 1,
@@ -183,6 +212,11 @@ describe('cli-reporter', () => {
           { name: 'propC', covered: false }
         ]
       },
+      emits: {
+        total: 0,
+        covered: 0,
+        details: []
+      },
       slots: {
         total: 0,
         covered: 0,
@@ -201,7 +235,8 @@ describe('cli-reporter', () => {
     const report = generateCliReport([component1, component2])
     
     expect(report).toContain('Components')
-    expect(report).toContain('Props/Events')
+    expect(report).toContain('Props')
+    expect(report).toContain('Emits')
     expect(report).toContain('Slots')
     expect(report).toContain('Exposes')
     expect(report).toContain('Component1.vue')
@@ -211,4 +246,56 @@ describe('cli-reporter', () => {
     expect(report).toContain('propC')
     expect(report).toContain('methodB')
   })
+  it('should list deprecated apis and the tests still using them', () => {
+    const test = { file: `${process.cwd()}/test/Button.spec.tsx`, title: ['Button', 'legacy size'], line: 12, column: 5 }
+    const data: VcCoverageData = {
+      name: 'button/Button.tsx',
+      file: '/project/button/Button.tsx',
+      total: 1,
+      covered: 1,
+      props: {
+        total: 1,
+        covered: 1,
+        details: [{ name: 'legacySize', covered: true, tests: [test], deprecated: true }],
+      },
+      emits: { total: 0, covered: 0, details: [], deprecated: [{ name: 'onLegacyClick', covered: false }] },
+      slots: { total: 0, covered: 0, details: [] },
+      exposes: { total: 0, covered: 0, details: [] },
+    }
+    const report = generateCliDeprecated([data]).replace(/\u001b\[\d+m/g, '')
+    expect(report).toContain('Deprecated APIs:')
+    expect(report).toContain('  button/Button.tsx props.legacySize: used by 1 test\n    test/Button.spec.tsx:12:5 Button › legacy size')
+    expect(report).toContain('  button/Button.tsx emits.onLegacyClick: not used by tests')
+    expect(generateCliDeprecated([{ ...data, props: { total: 0, covered: 0, details: [] }, emits: { total: 0, covered: 0, details: [] } }])).toBe('')
+  })
+  it('should show the coverage delta against the previous run', () => {
+    const createEntry = (timestamp: string, propsCovered: number, components: VcHistoryEntry['components']): VcHistoryEntry => ({
+      timestamp,
+      total: { total: 4, covered: propsCovered },
+      categories: {
+        props: { total: 4, covered: propsCovered },
+        emits: { total: 0, covered: 0 },
+        slots: { total: 0, covered: 0 },
+        exposes: { total: 0, covered: 0 },
+      },
+      components,
+    })
+    const previous = createEntry('2026-01-01T00:00:00.000Z', 1, {
+      'button/Button.tsx': { total: 2, covered: 1 },
+      'input/Input.tsx': { total: 2, covered: 0 },
+      'old/Old.tsx': { total: 1, covered: 1 },
+    })
+    const current = createEntry('2026-01-02T00:00:00.000Z', 3, {
+      'button/Button.tsx': { total: 2, covered: 1 },
+      'input/Input.tsx': { total: 2, covered: 2 },
+      'new/New.tsx': { total: 1, covered: 0 },
+    })
+    const delta = generateCliDelta(current, previous).replace(/\u001b\[\d+m/g, '')
+    expect(delta).toContain('Compared with previous run (2026-01-01T00:00:00.000Z): Props +50.0% · Emits ±0.0%')
+    expect(delta).toContain('Total +50.0%')
+    expect(delta).toContain('  input/Input.tsx: 0% → 100% (+100.0%)')
+    expect(delta).toContain('  new/New.tsx: 0% (new)')
+    expect(delta).toContain('  old/Old.tsx: removed')
+    expect(delta).not.toContain('button/Button.tsx')
+  })
 }) 
\ No newline at end of file
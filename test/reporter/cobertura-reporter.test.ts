@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { CoberturaReporter } from '../../src/reporter/CoberturaReporter'
+import { promises as fs } from 'fs'
+import path from 'path'
+
+describe('cobertura-reporter', () => {
+  const testOutputDir = 'test-coverage-cobertura'
+  let reporter: CoberturaReporter
+
+  beforeEach(() => {
+    reporter = new CoberturaReporter(testOutputDir)
+  })
+
+  afterEach(async () => {
+    try {
+      await fs.rm(testOutputDir, { recursive: true, force: true })
+    } catch (error) {
+      // Ignore error if directory doesn't exist
+    }
+  })
+
+  it('should generate cobertura xml with a class per declaring file', async () => {
+    const buttonFile = path.resolve('src/button/Button.tsx')
+    const coverageData = [{
+      name: 'button/Button.tsx',
+      file: buttonFile,
+      total: 3,
+      covered: 2,
+      props: {
+        total: 2,
+        covered: 1,
+        details: [
+          { name: 'size', covered: true, location: { file: buttonFile, line: 6, column: 5 } },
+          { name: 'loading', covered: false, location: { file: buttonFile, line: 6, column: 5 } }
+        ]
+      },
+      emits: {
+        total: 1,
+        covered: 1,
+        details: [
+          { name: 'onClick', covered: true, location: { file: buttonFile, line: 9, column: 11 } }
+        ]
+      },
+      slots: { total: 0, covered: 0, details: [] },
+      exposes: { total: 0, covered: 0, details: [] }
+    }]
+
+    reporter.setCoverageData(coverageData)
+    await reporter.generateReport()
+
+    const content = await fs.readFile(path.join(testOutputDir, 'api-cobertura.xml'), 'utf-8')
+    expect(content).toMatch(/<coverage lines-valid="2" lines-covered="1" line-rate="0.5" /)
+    expect(content).toContain('<package name="src.button" line-rate="0.5"')
+    expect(content).toContain('<class name="Button.tsx" filename="src/button/Button.tsx" line-rate="0.5"')
+    expect(content).toContain('<method name="props.loading" signature="" line-rate="0"')
+    // 同一行中存在未覆盖的 API 时该行视为未覆盖
+    expect(content).toContain('            <line number="6" hits="0"/>')
+    expect(content).toContain('            <line number="9" hits="1"/>')
+  })
+})
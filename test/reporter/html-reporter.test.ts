@@ -32,6 +32,11 @@ describe('html-reporter', () => {
         ]
       },
 
+      emits: {
+        total: 0,
+        covered: 0,
+        details: []
+      },
       slots: {
         total: 1,
         covered: 1,
@@ -67,6 +72,11 @@ describe('html-reporter', () => {
         covered: 0,
         details: []
       },
+      emits: {
+        total: 0,
+        covered: 0,
+        details: []
+      },
       slots: {
         total: 0,
         covered: 0,
@@ -104,6 +114,7 @@ describe('html-reporter', () => {
             { name: 'propB', covered: true }
           ]
         },
+        emits: { total: 0, covered: 0, details: [] },
         slots: { total: 0, covered: 0, details: [] },
         exposes: { total: 0, covered: 0, details: [] }
       },
@@ -113,6 +124,7 @@ describe('html-reporter', () => {
         total: 0,
         covered: 0,
         props: { total: 0, covered: 0, details: [] },
+        emits: { total: 0, covered: 0, details: [] },
         slots: { total: 0, covered: 0, details: [] },
         exposes: { total: 0, covered: 0, details: [] }
       }
@@ -127,4 +139,54 @@ describe('html-reporter', () => {
     expect(htmlContent).toContain('ComponentA')
     expect(htmlContent).toContain('ComponentB')
   })
+  it('should generate offline pages with a source view per component', async () => {
+    const file = path.resolve('test/fixtures/analyze/Button.tsx')
+    reporter.setCoverageData([{
+      name: 'analyze/Button.tsx',
+      file,
+      total: 2,
+      covered: 1,
+      props: {
+        total: 2,
+        covered: 1,
+        details: [
+          { name: 'size', covered: true, location: { file, line: 6, column: 5 } },
+          { name: 'disabled', covered: false, location: { file, line: 7, column: 5 } }
+        ]
+      },
+      emits: { total: 0, covered: 0, details: [] },
+      slots: { total: 0, covered: 0, details: [] },
+      exposes: { total: 0, covered: 0, details: [] }
+    }])
+    await reporter.generateReport()
+
+    const htmlContent = await fs.readFile(path.join(testOutputDir, 'index.html'), 'utf-8')
+    expect(htmlContent).not.toMatch(/<script[^>]+src=|<link[^>]+href="http/)
+    expect(htmlContent).toContain('<a href="components/test_fixtures_analyze_Button.tsx.html">analyze/Button.tsx</a>')
+
+    const detailContent = await fs.readFile(path.join(testOutputDir, 'components/test_fixtures_analyze_Button.tsx.html'), 'utf-8')
+    expect(detailContent).toContain('<tr class="line-covered"><td class="line-number">6</td><td class="line-apis">props.size</td>')
+    expect(detailContent).toContain('<tr class="line-uncovered"><td class="line-number">7</td><td class="line-apis">props.disabled</td>')
+    expect(detailContent).toContain('<a class="text-sm" href="../index.html">')
+  })
+  it('should render coverage trend lines from the history', async () => {
+    const createEntry = (timestamp: string, covered: number) => ({
+      timestamp,
+      total: { total: 2, covered },
+      categories: {
+        props: { total: 2, covered },
+        emits: { total: 0, covered: 0 },
+        slots: { total: 0, covered: 0 },
+        exposes: { total: 0, covered: 0 },
+      },
+      components: {},
+    })
+    reporter.setCoverageData([])
+    reporter.setHistory([createEntry('2026-01-01T00:00:00.000Z', 1), createEntry('2026-01-02T00:00:00.000Z', 2)])
+    await reporter.generateReport()
+
+    const htmlContent = await fs.readFile(path.join(testOutputDir, 'index.html'), 'utf-8')
+    expect(htmlContent).toContain('Coverage trend of the last 2 runs')
+    expect(htmlContent).toContain('<polyline points="40.0,90.0 340.0,10.0"')
+  })
 }) 
\ No newline at end of file
@@ -66,6 +66,8 @@ describe('json-reporter', () => {
         totalComponents: 1,
         totalProps: 2,
         coveredProps: 2,
+        totalEmits: 2,
+        coveredEmits: 1,
         totalSlots: 1,
         coveredSlots: 1,
         totalExposes: 0,
@@ -73,9 +75,10 @@ describe('json-reporter', () => {
       },
       stats: {
         props: 100,
+        emits: 50,
         slots: 100,
         methods: 100,
-        total: 100
+        total: 80
       },
       components: coverageData
     })
@@ -92,6 +95,11 @@ describe('json-reporter', () => {
         covered: 0,
         details: []
       },
+      emits: {
+        total: 0,
+        covered: 0,
+        details: []
+      },
       slots: {
         total: 0,
         covered: 0,
@@ -115,6 +123,8 @@ describe('json-reporter', () => {
         totalComponents: 1,
         totalProps: 0,
         coveredProps: 0,
+        totalEmits: 0,
+        coveredEmits: 0,
         totalSlots: 0,
         coveredSlots: 0,
         totalExposes: 0,
@@ -122,6 +132,7 @@ describe('json-reporter', () => {
       },
       stats: {
         props: 100,
+        emits: 100,
         slots: 100,
         methods: 100,
         total: 100
@@ -145,6 +156,7 @@ describe('json-reporter', () => {
             { name: 'propB', covered: true }
           ]
         },
+        emits: { total: 0, covered: 0, details: [] },
         slots: { total: 0, covered: 0, details: [] },
         exposes: { total: 0, covered: 0, details: [] }
       },
@@ -154,6 +166,7 @@ describe('json-reporter', () => {
         total: 0,
         covered: 0,
         props: { total: 0, covered: 0, details: [] },
+        emits: { total: 0, covered: 0, details: [] },
         slots: { total: 0, covered: 0, details: [] },
         exposes: { total: 0, covered: 0, details: [] }
       }
@@ -170,6 +183,8 @@ describe('json-reporter', () => {
         totalComponents: 2,
         totalProps: 2,
         coveredProps: 2,
+        totalEmits: 0,
+        coveredEmits: 0,
         totalSlots: 0,
         coveredSlots: 0,
         totalExposes: 0,
@@ -177,6 +192,7 @@ describe('json-reporter', () => {
       },
       stats: {
         props: 100,
+        emits: 100,
         slots: 100,
         methods: 100,
         total: 100
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { JUnitReporter } from '../../src/reporter/JunitReporter'
+import { promises as fs } from 'fs'
+import path from 'path'
+
+describe('junit-reporter', () => {
+  const testOutputDir = 'test-coverage-junit'
+  let reporter: JUnitReporter
+
+  beforeEach(() => {
+    reporter = new JUnitReporter(testOutputDir)
+  })
+
+  afterEach(async () => {
+    try {
+      await fs.rm(testOutputDir, { recursive: true, force: true })
+    } catch (error) {
+      // Ignore error if directory doesn't exist
+    }
+  })
+
+  it('should generate a testsuite per component with uncovered apis as failures', async () => {
+    const propsFile = path.resolve('src/common/props.ts')
+    reporter.setCoverageData([{
+      name: 'button/Button.tsx',
+      file: path.resolve('src/button/Button.tsx'),
+      total: 3,
+      covered: 1,
+      props: {
+        total: 2,
+        covered: 1,
+        details: [
+          { name: 'size', covered: true },
+          { name: 'loading', covered: false, location: { file: propsFile, line: 2, column: 3 } }
+        ]
+      },
+      emits: {
+        total: 1,
+        covered: 0,
+        details: [{ name: 'onClick', covered: false }]
+      },
+      slots: { total: 0, covered: 0, details: [] },
+      exposes: { total: 0, covered: 0, details: [] }
+    }])
+    await reporter.generateReport()
+
+    const content = await fs.readFile(path.join(testOutputDir, 'api-junit.xml'), 'utf-8')
+    expect(content).toContain('<testsuites name="vc-api-coverage" tests="3" failures="2" errors="0" skipped="0">')
+    expect(content).toContain('<testsuite name="button/Button.tsx" tests="3" failures="2" errors="0" skipped="0" file="src/button/Button.tsx">')
+    expect(content).toContain('<testcase classname="button/Button.tsx" name="props.size"/>')
+    expect(content).toContain([
+      '    <testcase classname="button/Button.tsx" name="props.loading" file="src/common/props.ts" line="2">',
+      '      <failure message="props &quot;loading&quot; of button/Button.tsx is not covered by any test" type="UncoveredApi">props &quot;loading&quot; of button/Button.tsx is not covered by any test',
+      '    at src/common/props.ts:2:3</failure>',
+      '    </testcase>',
+    ].join('\n'))
+    expect(content).toContain('<testcase classname="button/Button.tsx" name="emits.onClick" file="src/button/Button.tsx">')
+  })
+
+  it('should report ignored apis as skipped testcases', async () => {
+    reporter.setCoverageData([{
+      name: 'button/Button.tsx',
+      file: path.resolve('src/button/Button.tsx'),
+      total: 1,
+      covered: 1,
+      props: { total: 1, covered: 1, details: [{ name: 'size', covered: true }], ignored: [{ name: 'legacySize' }] },
+      emits: { total: 0, covered: 0, details: [] },
+      slots: { total: 0, covered: 0, details: [] },
+      exposes: { total: 0, covered: 0, details: [] }
+    }])
+    const content = reporter.generateContent()
+    expect(content).toContain('<testsuite name="button/Button.tsx" tests="2" failures="0" errors="0" skipped="1" file="src/button/Button.tsx">')
+    expect(content).toContain([
+      '    <testcase classname="button/Button.tsx" name="props.legacySize">',
+      '      <skipped message="ignored"/>',
+      '    </testcase>',
+    ].join('\n'))
+  })
+}) 
\ No newline at end of file
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { LcovReporter } from '../../src/reporter/LcovReporter'
+import { promises as fs } from 'fs'
+import path from 'path'
+
+describe('lcov-reporter', () => {
+  const testOutputDir = 'test-coverage-lcov'
+  let reporter: LcovReporter
+
+  beforeEach(() => {
+    reporter = new LcovReporter(testOutputDir)
+  })
+
+  afterEach(async () => {
+    try {
+      await fs.rm(testOutputDir, { recursive: true, force: true })
+    } catch (error) {
+      // Ignore error if directory doesn't exist
+    }
+  })
+
+  it('should generate lcov records at the declaring lines of each api', async () => {
+    const coverageData = [{
+      name: 'button/Button.tsx',
+      file: '/project/button/Button.tsx',
+      total: 3,
+      covered: 1,
+      props: {
+        total: 2,
+        covered: 1,
+        details: [
+          { name: 'size', covered: true, location: { file: '/project/button/Button.tsx', line: 6, column: 5 } },
+          { name: 'loading', covered: false, location: { file: '/project/common/props.ts', line: 2, column: 3 } }
+        ]
+      },
+      emits: {
+        total: 1,
+        covered: 0,
+        details: [
+          { name: 'onClick', covered: false, location: { file: '/project/button/Button.tsx', line: 9, column: 11 } }
+        ]
+      },
+      slots: { total: 0, covered: 0, details: [] },
+      exposes: { total: 0, covered: 0, details: [] }
+    }]
+
+    reporter.setCoverageData(coverageData)
+    await reporter.generateReport()
+
+    const content = await fs.readFile(path.join(testOutputDir, 'api-lcov.info'), 'utf-8')
+    expect(content).toBe([
+      'TN:',
+      'SF:/project/button/Button.tsx',
+      'FN:6,props.size',
+      'FN:9,emits.onClick',
+      'FNDA:1,props.size',
+      'FNDA:0,emits.onClick',
+      'FNF:2',
+      'FNH:1',
+      'DA:6,1',
+      'DA:9,0',
+      'LF:2',
+      'LH:1',
+      'end_of_record',
+      'TN:',
+      'SF:/project/common/props.ts',
+      'FN:2,props.loading',
+      'FNDA:0,props.loading',
+      'FNF:1',
+      'FNH:0',
+      'DA:2,0',
+      'LF:1',
+      'LH:0',
+      'end_of_record',
+      '',
+    ].join('\n'))
+  })
+
+  it('should place apis without a location on the first line of the component', () => {
+    reporter.setCoverageData([{
+      name: 'List.tsx',
+      file: '/project/List.tsx',
+      total: 1,
+      covered: 1,
+      props: { total: 0, covered: 0, details: [] },
+      emits: { total: 0, covered: 0, details: [] },
+      slots: { total: 1, covered: 1, details: [{ name: 'row', covered: true }] },
+      exposes: { total: 0, covered: 0, details: [] }
+    }])
+    expect(reporter.generateContent()).toContain('SF:/project/List.tsx\nFN:1,slots.row\nFNDA:1,slots.row')
+  })
+})
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { MarkdownReporter } from '../../src/reporter/MarkdownReporter'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { createCoverageData } from '../helpers'
+
+describe('markdown-reporter', () => {
+  const testOutputDir = 'test-coverage-markdown'
+  let reporter: MarkdownReporter
+
+  beforeEach(() => {
+    reporter = new MarkdownReporter(testOutputDir)
+  })
+
+  afterEach(async () => {
+    try {
+      await fs.rm(testOutputDir, { recursive: true, force: true })
+    } catch (error) {
+      // Ignore error if directory doesn't exist
+    }
+  })
+
+  it('should generate a markdown summary with uncovered apis per component', async () => {
+    reporter.setCoverageData([
+      createCoverageData('button/Button.tsx', { props: [['size', true], ['disabled', false]] }),
+      createCoverageData('input/Input.tsx', { props: [['value', true]] }),
+    ])
+    await reporter.generateReport()
+
+    const content = await fs.readFile(path.join(testOutputDir, 'api-coverage.md'), 'utf-8')
+    expect(content).toContain('| Props | 2/3 (67%) |')
+    expect(content).toContain('| **Total** | **2/3 (67%)** |')
+    expect(content).toContain('| button/Button.tsx | 1/2 (50%) | 0/0 (100%) | 0/0 (100%) | 0/0 (100%) |')
+    expect(content).toContain('<summary>button/Button.tsx: 1 uncovered</summary>\n\n- props: `disabled`')
+    expect(content).not.toContain('<summary>input/Input.tsx')
+    // 不包含终端颜色与制表符
+    expect(content).not.toMatch(/\u001b\[|║/)
+  })
+
+  it('should cap the component rows starting from the least covered', () => {
+    reporter = new MarkdownReporter(testOutputDir, 1)
+    reporter.setCoverageData([
+      createCoverageData('a/A.tsx', { props: [['size', true]] }),
+      createCoverageData('b/B.tsx', { props: [['size', false]] }),
+    ])
+    const content = reporter.generateContent()
+    expect(content).toContain('| b/B.tsx |')
+    expect(content).not.toContain('| a/A.tsx |')
+    expect(content).toContain('_1 more components not shown._')
+  })
+
+  it('should list ignored apis of each component', () => {
+    const component = createCoverageData('input/Input.tsx', { props: [['value', true]] })
+    component.props.ignored = [{ name: 'legacyValue' }]
+    reporter.setCoverageData([component])
+    const content = reporter.generateContent()
+    expect(content).toContain('<summary>input/Input.tsx: 0 uncovered, 1 ignored</summary>\n\n- ignored: `legacyValue`')
+  })
+
+  it('should list props with missing literal values', () => {
+    const component = createCoverageData('button/Button.tsx', { props: [['size', true]] })
+    component.props.details[0].values = [{ value: 'small', covered: true }, { value: 'medium', covered: true }, { value: 'large', covered: false }]
+    reporter.setCoverageData([component])
+    const content = reporter.generateContent()
+    expect(content).toContain('<summary>button/Button.tsx: 0 uncovered, 1 with missing values</summary>\n\n- values: size: 2/3 (missing: large)')
+  })
+
+  it('should list scoped slots with missing params', () => {
+    const component = createCoverageData('table/Table.tsx')
+    component.slots = { total: 1, covered: 1, details: [{ name: 'row', covered: true, params: [{ name: 'item', covered: true }, { name: 'index', covered: false }] }] }
+    reporter.setCoverageData([component])
+    const content = reporter.generateContent()
+    expect(content).toContain('<summary>table/Table.tsx: 0 uncovered, 1 with missing slot params</summary>\n\n- slot params: row: 1/2 (missing: index)')
+  })
+
+  it('should list deprecated apis with the tests still using them', () => {
+    const component = createCoverageData('input/Input.tsx', { props: [['value', true]] })
+    component.props.details[0] = { ...component.props.details[0], deprecated: true, tests: [{ file: path.resolve('test/Input.spec.tsx'), title: ['Input'], line: 4, column: 7 }] }
+    component.emits.deprecated = [{ name: 'onLegacyChange', covered: false }]
+    reporter.setCoverageData([component])
+    const content = reporter.generateContent()
+    expect(content).toContain('### Deprecated APIs')
+    expect(content).toContain('| input/Input.tsx | props.`value` | `test/Input.spec.tsx:4` |')
+    expect(content).toContain('| input/Input.tsx | emits.`onLegacyChange` | - |')
+  })
+}) 
\ No newline at end of file
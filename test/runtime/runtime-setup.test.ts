@@ -0,0 +1,37 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest'
+import { mount } from '@vue/test-utils'
+import { defineComponent, h } from 'vue'
+import { getRuntimeData } from '../../src/runtime/setup'
+
+describe('runtime-setup', () => {
+  it('should record props, emits, slots and exposes used at runtime', async () => {
+    const Button = Object.assign(defineComponent({
+      name: 'Button',
+      props: {
+        size: String,
+        disabled: Boolean,
+      },
+      emits: ['click', 'focus'],
+      setup(props, { emit, slots, expose }) {
+        const focus = () => emit('focus')
+        expose({ focus, blur: () => {} })
+        return () => h('button', { onClick: () => emit('click') }, [slots.default?.(), slots.icon?.()])
+      },
+    }), { __file: '/fake/Button.tsx' })
+
+    const onClick = () => {}
+    const wrapper = mount(Button, {
+      props: { size: 'small', onClick },
+      slots: { default: () => 'Hello', footer: () => 'Footer' },
+    })
+    await wrapper.trigger('click')
+    ;(wrapper.vm as unknown as { focus: () => void }).focus()
+
+    const data = getRuntimeData()['/fake/Button.tsx']
+    expect(data.props).toEqual(['size'])
+    expect(data.emits.sort()).toEqual(['onClick', 'onFocus'])
+    expect(data.slots).toEqual(['default'])
+    expect(data.exposes).toEqual(['focus'])
+  })
+})
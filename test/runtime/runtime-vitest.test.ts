@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest'
+import path from 'path'
+import { startVitest } from 'vitest/node'
+import VcCoverageReporter from '../../src/ApiReporter'
+import type { VcCoverageData } from '../../src/types'
+
+describe('runtime-vitest', () => {
+  it('should record the apis of components mounted in a vitest run', async () => {
+    let coverageData: VcCoverageData[] = []
+    const reporter = new VcCoverageReporter({
+      format: [],
+      historySize: 0,
+      cache: false,
+      onFinished: data => { coverageData = data },
+    })
+    const vitest = await startVitest('test', [], {
+      root: path.resolve('test/fixtures/runtime'),
+      config: false,
+      watch: false,
+      environment: 'jsdom',
+      include: ['*.spec.tsx'],
+      setupFiles: [path.resolve('src/runtime/setup.ts')],
+      reporters: [reporter],
+    })
+    await vitest.close()
+    const button = coverageData.find(item => item.name === 'runtime/Button.tsx')!
+    expect(button.props.details.find(d => d.name === 'size')!.sources).toContain('runtime')
+    expect(button.emits.details).toMatchObject([{ name: 'onClick', covered: true, sources: ['runtime'] }])
+  })
+})